@@ -0,0 +1,76 @@
+#!/usr/bin/env node
+import "dotenv/config";
+
+/**
+ * Snapshot Export
+ *
+ * Fetches the Brand Bible, glossary and marketing stats live and writes them
+ * to a versioned snapshot bundle (JSON plus Markdown). Serve a bundle with
+ * SNAPSHOT_PATH=<bundle dir>.
+ *
+ * Usage:
+ *   pnpm snapshot:export
+ *   pnpm snapshot:export --out ./snapshots
+ *   pnpm snapshot:export --allow-cached
+ */
+
+import { join } from "path";
+import { parseArgs } from "util";
+import { DATA_DIR } from "../constants.js";
+import { ConfigError, getConfig } from "../config.js";
+import { fetchBrandBible, getCacheStatus } from "../services/brandBible.js";
+import { fetchGlossary, getGlossaryCacheStatus } from "../services/glossary.js";
+import { fetchMarketingStats, getStatsCacheStatus } from "../services/stats.js";
+import { writeSnapshotBundle } from "../services/snapshot.js";
+
+const USAGE = `Usage: snapshot:export [options]
+
+  --out <dir>      Directory to create the bundle in (default: ${join(DATA_DIR, "snapshots")})
+  --allow-cached   Export disk-cached or fallback content when a source can't be fetched live
+  --help           Show this message`;
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      out: { type: "string", default: join(DATA_DIR, "snapshots") },
+      "allow-cached": { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (getConfig().snapshotPath) {
+    throw new Error("SNAPSHOT_PATH is set — unset it to export from the live sources");
+  }
+
+  const [brandBible, glossary, stats] = await Promise.all([
+    fetchBrandBible(true),
+    fetchGlossary(true),
+    fetchMarketingStats(true),
+  ]);
+
+  // A bundle is meant to be reviewed and pinned, so don't silently ship placeholders
+  const notLive = [getCacheStatus(), getGlossaryCacheStatus(), getStatsCacheStatus()].filter((s) => s.origin !== "live");
+  for (const status of notLive) {
+    console.error(`${status.label}: not fetched live (${status.lastError?.message ?? "unknown error"}) — using ${status.origin} content`);
+  }
+  if (notLive.length > 0 && !values["allow-cached"]) {
+    throw new Error("Some sources could not be fetched live; fix access or pass --allow-cached");
+  }
+
+  const { manifest, path } = await writeSnapshotBundle(values.out!, { brandBible, glossary, stats });
+  console.log(`Snapshot ${manifest.version} written to ${path}`);
+  console.log(
+    `  ${manifest.counts.sections} sections, ${manifest.counts.subsections} subsections, ` +
+      `${manifest.counts.terms} glossary terms, ${manifest.counts.networks} networks, ${manifest.counts.partners} partners`
+  );
+  console.log(`Serve it with SNAPSHOT_PATH=${path}`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof ConfigError ? error.message : `Error: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
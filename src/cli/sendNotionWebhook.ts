@@ -0,0 +1,126 @@
+#!/usr/bin/env node
+import "dotenv/config";
+
+/**
+ * Notion Webhook Request Generator
+ *
+ * Sends a signed, Notion-shaped webhook event to a running server, for
+ * testing the /webhooks/notion route without a Notion subscription.
+ *
+ * Usage:
+ *   pnpm webhook:send --source brandBible
+ *   pnpm webhook:send --source concepts --type page.properties_updated
+ *   pnpm webhook:send --entity <page-id> --parent <database-id>
+ *   pnpm webhook:send --verification
+ *
+ * The event is signed with NOTION_WEBHOOK_SECRET (or --secret).
+ */
+
+import { randomUUID } from "crypto";
+import { parseArgs } from "util";
+import { ConfigError, getConfig } from "../config.js";
+import { signNotionPayload } from "../services/notionWebhook.js";
+
+const USAGE = `Usage: webhook:send [options]
+
+  --source <brandBible|concepts|components>  Target a configured content source
+  --entity <id>          Entity ID (default: the source's page or database)
+  --entity-type <type>   Entity type (default: page)
+  --parent <id>          Parent page/database ID
+  --type <event>         Event type (default: page.content_updated)
+  --url <url>            Webhook URL (default: http://localhost:$PORT/webhooks/notion)
+  --secret <secret>      Signing secret (default: NOTION_WEBHOOK_SECRET)
+  --verification         Send a subscription verification request instead
+                         (accepted only while the server has no NOTION_WEBHOOK_SECRET)
+  --help                 Show this message`;
+
+function buildEvent(options: { source?: string; entity?: string; entityType?: string; parent?: string; type: string }) {
+  const sources = getConfig().sources;
+  let entity = options.entity;
+  let parent = options.parent;
+  let entityType = options.entityType ?? "page";
+
+  switch (options.source) {
+    case undefined:
+      break;
+    case "brandBible":
+      entity ??= sources.brandBible.notionPageId;
+      break;
+    case "concepts":
+    case "components": {
+      const databaseId = options.source === "concepts"
+        ? sources.glossary.systemConceptsDatabaseId
+        : sources.glossary.systemComponentsDatabaseId;
+      // A term page inside the database, unless an entity was given
+      if (entity) parent ??= databaseId;
+      else {
+        entity = databaseId;
+        entityType = "database";
+      }
+      break;
+    }
+    default:
+      throw new Error(`Unknown source "${options.source}" (expected brandBible, concepts or components)`);
+  }
+
+  if (!entity) throw new Error("Pass --source or --entity");
+
+  return {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    workspace_id: randomUUID(),
+    subscription_id: randomUUID(),
+    integration_id: randomUUID(),
+    type: options.type,
+    authors: [{ id: randomUUID(), type: "person" }],
+    entity: { id: entity, type: entityType },
+    data: parent ? { parent: { id: parent, type: "database" } } : {},
+  };
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      source: { type: "string" },
+      entity: { type: "string" },
+      "entity-type": { type: "string" },
+      parent: { type: "string" },
+      type: { type: "string", default: "page.content_updated" },
+      url: { type: "string", default: `http://localhost:${process.env.PORT || "3000"}/webhooks/notion` },
+      secret: { type: "string", default: process.env.NOTION_WEBHOOK_SECRET },
+      verification: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  let body: string;
+  if (values.verification) {
+    body = JSON.stringify({ verification_token: `secret_${randomUUID().replace(/-/g, "")}` });
+  } else {
+    if (!values.secret) throw new Error("No signing secret: set NOTION_WEBHOOK_SECRET or pass --secret");
+    body = JSON.stringify(buildEvent({
+      source: values.source,
+      entity: values.entity,
+      entityType: values["entity-type"],
+      parent: values.parent,
+      type: values.type!,
+    }));
+    headers["X-Notion-Signature"] = signNotionPayload(body, values.secret);
+  }
+
+  console.log(`POST ${values.url}\n${body}\n`);
+  const response = await fetch(values.url!, { method: "POST", headers, body });
+  console.log(`${response.status} ${response.statusText}\n${await response.text()}`);
+  if (!response.ok) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error(error instanceof ConfigError ? error.message : `Error: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
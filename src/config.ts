@@ -0,0 +1,250 @@
+/**
+ * Server Configuration
+ *
+ * Content sources, cache durations, enabled tool groups and the
+ * plain-language dictionary, read from an
+ * optional JSON or YAML config file and overridden by environment variables.
+ * Defaults (in constants.ts) point at the official SODAX Notion pages and API,
+ * so the server runs unconfigured; a regional or staging instance only needs
+ * a config file naming its own pages.
+ *
+ * The config file is located via CONFIG_FILE, or else the first of
+ * sodax.config.json / sodax.config.yaml / sodax.config.yml in the working
+ * directory. It is validated with zod at startup.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { extname, resolve } from "path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import {
+  BRAND_BIBLE_PAGE_ID,
+  CACHE_DURATION_MS,
+  GLOSSARY_CACHE_DURATION_MS,
+  GLOSSARY_SYSTEM_COMPONENTS_DB,
+  GLOSSARY_SYSTEM_CONCEPTS_DB,
+  SODAX_API_BASE_URL,
+  STATS_CACHE_DURATION_MS,
+} from "./constants.js";
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+/** Notion page/database ID, dashed or not */
+const notionId = z
+  .string()
+  .regex(/^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i, "must be a 32-character Notion ID");
+
+const ttlSeconds = z.number().int().min(0, "must be 0 or more seconds");
+
+export const TOOL_GROUPS = ["brandBible", "glossary", "stats", "review", "search", "assets", "cache"] as const;
+export type ToolGroup = (typeof TOOL_GROUPS)[number];
+
+export const PLAIN_LANGUAGE_AUDIENCES = ["retail", "investor", "developer", "press"] as const;
+export type PlainLanguageAudience = (typeof PLAIN_LANGUAGE_AUDIENCES)[number];
+
+/** Plain-language wording, or null to keep the technical term */
+const plainWording = z.string().min(1).nullable();
+
+const PlainLanguageEntrySchema = z
+  .object({
+    term: z.string().min(1),
+    /** Other spellings replaced the same way, e.g. "cross-chain" */
+    variants: z.array(z.string().min(1)).optional(),
+    replacement: plainWording,
+    /** Per-audience wording, overriding `replacement` */
+    audiences: z
+      .object({
+        retail: plainWording.optional(),
+        investor: plainWording.optional(),
+        developer: plainWording.optional(),
+        press: plainWording.optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export type PlainLanguageEntry = z.infer<typeof PlainLanguageEntrySchema>;
+
+const ConfigSchema = z
+  .object({
+    sources: z
+      .object({
+        brandBible: z
+          .object({
+            notionPageId: notionId.default(BRAND_BIBLE_PAGE_ID),
+            includeChildPages: z.boolean().default(false),
+          })
+          .strict()
+          .default({}),
+        glossary: z
+          .object({
+            systemConceptsDatabaseId: notionId.default(GLOSSARY_SYSTEM_CONCEPTS_DB),
+            systemComponentsDatabaseId: notionId.default(GLOSSARY_SYSTEM_COMPONENTS_DB),
+          })
+          .strict()
+          .default({}),
+        stats: z
+          .object({
+            apiBaseUrl: z.string().url().default(SODAX_API_BASE_URL),
+          })
+          .strict()
+          .default({}),
+      })
+      .strict()
+      .default({}),
+    cache: z
+      .object({
+        brandBibleTtlSeconds: ttlSeconds.default(CACHE_DURATION_MS / 1000),
+        glossaryTtlSeconds: ttlSeconds.default(GLOSSARY_CACHE_DURATION_MS / 1000),
+        statsTtlSeconds: ttlSeconds.default(STATS_CACHE_DURATION_MS / 1000),
+      })
+      .strict()
+      .default({}),
+    export: z
+      .object({
+        /** Serve GET /export/brand-bible.pdf — each request runs headless Chrome */
+        pdfEndpoint: z.boolean().default(false),
+        /** Run Chrome without its sandbox, for containers that can't provide one (e.g. running as root) */
+        chromeNoSandbox: z.boolean().default(false),
+      })
+      .strict()
+      .default({}),
+    /** Plain-language dictionary entries, added to (or replacing, by term) the built-in ones */
+    plainLanguage: z.array(PlainLanguageEntrySchema).default([]),
+    /** Serve all content from this snapshot bundle instead of Notion and the API */
+    snapshotPath: z.string().min(1).optional(),
+    /** Tool groups to register; resources follow their group */
+    tools: z.array(z.enum(TOOL_GROUPS)).min(1, "enable at least one tool group").default([...TOOL_GROUPS]),
+  })
+  .strict();
+
+export type ServerConfig = z.infer<typeof ConfigSchema>;
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+const DEFAULT_CONFIG_FILES = ["sodax.config.json", "sodax.config.yaml", "sodax.config.yml"];
+
+function findConfigFile(): string | null {
+  const explicit = process.env.CONFIG_FILE;
+  if (explicit) {
+    const path = resolve(explicit);
+    if (!existsSync(path)) throw new ConfigError(`CONFIG_FILE not found: ${path}`);
+    return path;
+  }
+  return DEFAULT_CONFIG_FILES.map((name) => resolve(name)).find((path) => existsSync(path)) ?? null;
+}
+
+function readConfigFile(path: string): unknown {
+  const text = readFileSync(path, "utf-8");
+  try {
+    return extname(path) === ".json" ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new ConfigError(`Could not parse ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/** Set a nested value, creating intermediate objects */
+function setPath(target: Record<string, unknown>, path: string[], value: unknown): void {
+  let node = target;
+  for (const key of path.slice(0, -1)) {
+    if (typeof node[key] !== "object" || node[key] === null) node[key] = {};
+    node = node[key] as Record<string, unknown>;
+  }
+  node[path[path.length - 1]] = value;
+}
+
+/** Environment variables that override config file values */
+/** "true" / "false" / "1" / "0", in any case — anything else is a mistake, not false */
+function parseBoolean(value: string): boolean {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === "true" || normalized === "1") return true;
+  if (normalized === "false" || normalized === "0") return false;
+  throw new Error(`expected true, false, 1 or 0, got "${value}"`);
+}
+
+const ENV_OVERRIDES: { env: string; path: string[]; parse: (value: string) => unknown }[] = [
+  { env: "BRAND_BIBLE_PAGE_ID", path: ["sources", "brandBible", "notionPageId"], parse: String },
+  { env: "BRAND_BIBLE_INCLUDE_CHILD_PAGES", path: ["sources", "brandBible", "includeChildPages"], parse: parseBoolean },
+  { env: "GLOSSARY_SYSTEM_CONCEPTS_DB", path: ["sources", "glossary", "systemConceptsDatabaseId"], parse: String },
+  { env: "GLOSSARY_SYSTEM_COMPONENTS_DB", path: ["sources", "glossary", "systemComponentsDatabaseId"], parse: String },
+  { env: "SODAX_API_BASE_URL", path: ["sources", "stats", "apiBaseUrl"], parse: String },
+  { env: "BRAND_BIBLE_CACHE_TTL", path: ["cache", "brandBibleTtlSeconds"], parse: Number },
+  { env: "GLOSSARY_CACHE_TTL", path: ["cache", "glossaryTtlSeconds"], parse: Number },
+  { env: "STATS_CACHE_TTL", path: ["cache", "statsTtlSeconds"], parse: Number },
+  { env: "EXPORT_PDF_ENDPOINT", path: ["export", "pdfEndpoint"], parse: parseBoolean },
+  { env: "CHROME_NO_SANDBOX", path: ["export", "chromeNoSandbox"], parse: parseBoolean },
+  { env: "SNAPSHOT_PATH", path: ["snapshotPath"], parse: String },
+  { env: "TOOL_GROUPS", path: ["tools"], parse: (v) => v.split(",").map((s) => s.trim()).filter(Boolean) },
+];
+
+function formatIssues(error: z.ZodError, source: string): string {
+  const lines = error.issues.map((issue) => {
+    const path = issue.path.join(".") || "(root)";
+    const env = ENV_OVERRIDES.find((o) => o.path.join(".") === issue.path.slice(0, o.path.length).join("."));
+    const from = env && process.env[env.env] ? ` (from ${env.env})` : "";
+    return `  - ${path}${from}: ${issue.message}`;
+  });
+  return `Invalid configuration in ${source}:\n${lines.join("\n")}`;
+}
+
+let config: ServerConfig | null = null;
+let configSource = "defaults";
+
+/**
+ * Read, merge and validate the configuration. Throws a ConfigError listing
+ * every problem if the file or any override is invalid.
+ */
+export function loadConfig(): ServerConfig {
+  const file = findConfigFile();
+  const raw = (file ? readConfigFile(file) : {}) ?? {};
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new ConfigError(`Configuration in ${file} must be an object`);
+  }
+
+  const merged = structuredClone(raw) as Record<string, unknown>;
+  const overrides: string[] = [];
+  for (const { env, path, parse } of ENV_OVERRIDES) {
+    const value = process.env[env];
+    if (value === undefined || value === "") continue;
+    try {
+      setPath(merged, path, parse(value));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ConfigError(`Invalid configuration in env (${env}):\n  - ${path.join(".")} (from ${env}): ${message}`);
+    }
+    overrides.push(env);
+  }
+
+  configSource = [file ?? "defaults", ...(overrides.length > 0 ? [`env (${overrides.join(", ")})`] : [])].join(" + ");
+  const result = ConfigSchema.safeParse(merged);
+  if (!result.success) throw new ConfigError(formatIssues(result.error, configSource));
+
+  config = result.data;
+  return config;
+}
+
+/** The active configuration, loaded on first use */
+export function getConfig(): ServerConfig {
+  return config ?? loadConfig();
+}
+
+/** Where the active configuration came from, e.g. "sodax.config.yaml + env (STATS_CACHE_TTL)" */
+export function getConfigSource(): string {
+  return configSource;
+}
+
+export function isToolGroupEnabled(group: ToolGroup): boolean {
+  return getConfig().tools.includes(group);
+}
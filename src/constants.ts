@@ -2,12 +2,21 @@
  * Constants for the Brand Bible, Glossary, and Marketing Stats services
  */
 
-// Notion Brand Bible — fetched via the Notion API (page with blocks)
+import type { PlainLanguageEntry } from "./config.js";
+
+// Notion Brand Bible — fetched via the Notion API (page with blocks).
+// Default source; override with sources.brandBible in the config file (see config.ts)
 export const BRAND_BIBLE_PAGE_ID = "1848c1d2-979c-801e-a841-d6ff58a45cfb";
 export const BRAND_BIBLE_URL = "https://www.notion.so/iconfoundation/Brand-Bible-v1-1-2-1848c1d2979c801ea841d6ff58a45cfb";
 
+// Notion block traversal — how deep to follow nested blocks (toggles, columns,
+// nested lists) and how many Notion API requests may run at once
+export const NOTION_MAX_BLOCK_DEPTH = 6;
+export const NOTION_FETCH_CONCURRENCY = 3;
+
 // Notion Technical Glossary — fetched via the Notion API
 // The glossary is split into two Notion databases: system concepts and system components
+// (defaults for sources.glossary in the config file)
 export const GLOSSARY_SYSTEM_CONCEPTS_DB = "2fe8c1d2-979c-808b-8213-edc54b17e8b3";
 export const GLOSSARY_SYSTEM_COMPONENTS_DB = "2c68c1d2-979c-806c-8153-f7009b55418d";
 
@@ -15,14 +24,73 @@ export const GLOSSARY_SYSTEM_COMPONENTS_DB = "2c68c1d2-979c-806c-8153-f7009b5541
 export const GLOSSARY_SYSTEM_CONCEPTS_URL = "https://iconfoundation.notion.site/system-concepts";
 export const GLOSSARY_SYSTEM_COMPONENTS_URL = "https://iconfoundation.notion.site/system-components";
 
-// SODAX Backend API — for marketing stats
+// SODAX Backend API — for marketing stats (default for sources.stats.apiBaseUrl)
 export const SODAX_API_BASE_URL = "https://api.sodax.com/v1/be";
 
-// Cache duration in milliseconds (5 minutes)
+// Local directory for persisted data (Brand Bible snapshots)
+export const DATA_DIR = process.env.DATA_DIR || "data";
+
+// Default cache durations in milliseconds (5 minutes); see cache.* in the config file
 export const CACHE_DURATION_MS = 5 * 60 * 1000;
 export const GLOSSARY_CACHE_DURATION_MS = 5 * 60 * 1000;
 export const STATS_CACHE_DURATION_MS = 5 * 60 * 1000;
 
+// Search synonyms — each group lists interchangeable terms (matched case-insensitively)
+export const SEARCH_SYNONYMS: readonly (readonly string[])[] = [
+  ["dex", "amm", "decentralized exchange", "exchange"],
+  ["chains", "networks", "blockchains"],
+  ["chain", "network", "blockchain"],
+  ["cross-chain", "cross-network", "multi-network", "multichain"],
+  ["money market", "lending market", "lending", "borrowing"],
+  ["swap", "trade", "exchange"],
+  ["bridge", "bridging", "transfer"],
+  ["token", "asset", "coin"],
+  ["tokens", "assets", "coins"],
+  ["solver", "router", "routing"],
+  ["liquidity", "inventory", "available funds"],
+  ["intent", "order"],
+  ["intents", "orders"],
+  ["logo", "wordmark", "brand mark"],
+  ["colors", "colours", "palette"],
+  ["tone", "voice"],
+];
+
+// Plain-language dictionary used to simplify glossary definitions; extended or
+// overridden by plainLanguage in the config file. Longer terms are matched first.
+export const PLAIN_LANGUAGE_DICTIONARY: readonly PlainLanguageEntry[] = [
+  {
+    term: "cross-network action",
+    variants: ["cross-chain action"],
+    replacement: "transaction across blockchains",
+    audiences: { developer: "cross-chain transaction", investor: "cross-chain transaction" },
+  },
+  { term: "cross-network", variants: ["cross-chain", "multi-network"], replacement: "multi-blockchain", audiences: { developer: null, investor: "cross-chain" } },
+  { term: "networks", replacement: null, audiences: { retail: "blockchains", press: "blockchains" } },
+  { term: "network", replacement: null, audiences: { retail: "blockchain", press: "blockchain" } },
+  { term: "execution path", replacement: "route", audiences: { developer: null } },
+  { term: "orchestrated", replacement: "managed", audiences: { developer: null } },
+  {
+    term: "decentralized exchange",
+    replacement: "trading platform",
+    audiences: { developer: null, investor: null, press: "decentralized trading platform" },
+  },
+  { term: "liquidity", replacement: "available funds", audiences: { retail: "money available to trade", developer: null, investor: null } },
+  { term: "settlement", replacement: "final processing", audiences: { retail: "completion", developer: null, investor: null } },
+  { term: "interoperability", replacement: "ability to work together", audiences: { developer: null, investor: null } },
+  { term: "protocol", replacement: "system", audiences: { developer: null, investor: null } },
+  { term: "on-chain", replacement: "blockchain-based", audiences: { developer: null, investor: null } },
+  { term: "smart contract", replacement: "automated program", audiences: { developer: null, investor: null, press: "self-executing contract" } },
+];
+
+// Crypto and DeFi jargon flagged by glossary annotation when the glossary has
+// no entry for it (terms in the plain-language dictionary are flagged too)
+export const JARGON_TERMS: readonly string[] = [
+  "bridge", "bridging", "slippage", "MEV", "TVL", "oracle", "intent", "staking", "validator", "rollup",
+  "layer 2", "L2", "EVM", "gas", "gas fee", "composability", "composable", "permissionless", "non-custodial",
+  "wrapped token", "stablecoin", "APY", "APR", "impermanent loss", "collateral", "liquidation", "DEX",
+  "yield", "tokenomics", "airdrop", "governance token", "DAO", "DeFi", "dApp", "multichain",
+];
+
 // Brand Bible section structure
 export const BRAND_SECTIONS = {
   "1": "Introduction & Brand Overview",
@@ -40,3 +108,63 @@ export const BRAND_COLORS = {
   espresso: "#1A1A1A",
   accent: "#FFD54F"
 } as const;
+
+// Public site URL — base for asset links (override for staging or self-hosting)
+export const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || "https://marketing.sodax.com").replace(/\/+$/, "");
+
+// Brand asset catalogue — image files live under src/public, paths are relative to it
+export const BRAND_ASSETS = [
+  {
+    id: "sodax-logo-on-dark",
+    name: "SODAX logo (white, for dark backgrounds)",
+    kind: "logo",
+    variant: "on-dark",
+    background: "dark",
+    files: {
+      svg: "images/SODAX-on-dark/SODAX white logo on dark.svg",
+      png: "images/SODAX-on-dark/SODAX-white-logo-on-dark.png"
+    }
+  },
+  {
+    id: "sodax-logo-on-white",
+    name: "SODAX logo (dark, for white or light backgrounds)",
+    kind: "logo",
+    variant: "on-white",
+    background: "light",
+    files: {
+      svg: "images/SODAX-on-white/SODAX-on-white.svg",
+      png: "images/SODAX-on-white/SODAX-on-white.png"
+    }
+  },
+  {
+    id: "sodax-symbol",
+    name: "SODAX symbol (yellow mark)",
+    kind: "symbol",
+    variant: "symbol",
+    background: "dark",
+    files: {
+      png: "images/symbol.png"
+    }
+  },
+  {
+    id: "soda-token",
+    name: "SODA token icon",
+    kind: "token",
+    variant: "token",
+    background: "any",
+    files: {
+      svg: "images/SODA-token/soda-token.svg",
+      png: "images/SODA-token/soda-token.png"
+    }
+  },
+  {
+    id: "link-preview",
+    name: "Social link preview image",
+    kind: "social",
+    variant: "og-image",
+    background: "any",
+    files: {
+      png: "images/link-preview.png"
+    }
+  }
+] as const;
@@ -5,7 +5,7 @@ import "dotenv/config";
  * SODAX Marketing MCP Server
  * 
  * Brand guidelines and marketing resources for content teams.
- * - Brand Bible: fetched from Notion via API (auto-updates every 5 min)
+ * - Brand Bible: fetched from Notion via API (auto-updates every 5 min by default)
  * - Technical Glossary: System Concepts & Components from Notion
  * - Marketing Stats: live data from SODAX API (networks, partners, token supply)
  */
@@ -22,23 +22,143 @@ import { dirname, join } from "path";
 import { registerBrandBibleTools } from "./tools/brandBible.js";
 import { registerGlossaryTools } from "./tools/glossary.js";
 import { registerStatsTools } from "./tools/stats.js";
+import { registerReviewTools } from "./tools/review.js";
+import { registerSearchTools } from "./tools/search.js";
+import { registerBrandAssetTools } from "./tools/brandAssets.js";
+import { registerCacheTools } from "./tools/cache.js";
+import { registerBrandBibleResources } from "./resources/brandBible.js";
+import { registerGlossaryResources } from "./resources/glossary.js";
+import { registerBrandAssetResources } from "./resources/brandAssets.js";
+import { enableResourceSubscriptions } from "./resources/subscriptions.js";
+import { registerMarketingPrompts } from "./prompts/marketing.js";
+import { ConfigError, getConfigSource, isToolGroupEnabled, loadConfig } from "./config.js";
+import type { ServerConfig, ToolGroup } from "./config.js";
+import { handleNotionWebhook } from "./services/notionWebhook.js";
+import { ExportError, renderBrandBibleHtml, renderPdf } from "./services/brandBibleExport.js";
+import { loadSnapshotBundle, SnapshotError } from "./services/snapshot.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// Validate configuration before registering anything, so a bad config file
+// fails fast with a readable message instead of at the first tool call
+let config: ServerConfig;
+try {
+  config = loadConfig();
+  console.error(`Configuration: ${getConfigSource()} (tool groups: ${config.tools.join(", ")})`);
+  if (config.snapshotPath) {
+    const snapshot = loadSnapshotBundle(config.snapshotPath);
+    console.error(`Snapshot mode: serving snapshot ${snapshot.version} from ${config.snapshotPath} — no network fetches`);
+  }
+} catch (error) {
+  if (error instanceof ConfigError || error instanceof SnapshotError) {
+    console.error(error.message);
+    process.exit(1);
+  }
+  throw error;
+}
+
 const server = new McpServer({
   name: "marketing-sodax-mcp-server",
   version: "1.0.0"
 });
 
-// Register brand bible tools
-registerBrandBibleTools(server);
+// Resource subscriptions are shared by every group that exposes resources
+enableResourceSubscriptions(server);
 
-// Register technical glossary tools
-registerGlossaryTools(server);
+// Register brand bible tools and resources
+if (isToolGroupEnabled("brandBible")) {
+  registerBrandBibleTools(server);
+  registerBrandBibleResources(server);
+}
+
+// Register technical glossary tools and resources
+if (isToolGroupEnabled("glossary")) {
+  registerGlossaryTools(server);
+  registerGlossaryResources(server);
+}
 
 // Register marketing stats tools
-registerStatsTools(server);
+if (isToolGroupEnabled("stats")) registerStatsTools(server);
+
+// Register copy review tools
+if (isToolGroupEnabled("review")) registerReviewTools(server);
+
+// Register unified search tools
+if (isToolGroupEnabled("search")) registerSearchTools(server);
+
+// Register brand asset tools and resources
+if (isToolGroupEnabled("assets")) {
+  registerBrandAssetTools(server);
+  registerBrandAssetResources(server);
+}
+
+// Register cache status tools
+if (isToolGroupEnabled("cache")) registerCacheTools(server);
+
+// Register marketing prompt templates
+registerMarketingPrompts(server);
+
+/** Tool names and resource URIs per group, for the /api listing */
+const TOOL_GROUP_CATALOGUE: Record<ToolGroup, { tools: string[]; resources: string[] }> = {
+  brandBible: {
+    tools: [
+      "sodax_get_brand_overview",
+      "sodax_get_section",
+      "sodax_get_subsection",
+      "sodax_search_brand_bible",
+      "sodax_refresh_brand_bible",
+      "sodax_list_subsections",
+      "sodax_brand_bible_changes",
+      "sodax_export_brand_bible",
+      "sodax_get_messaging",
+      "sodax_list_brand_rules"
+    ],
+    resources: ["sodax://brand", "sodax://brand/{id}"]
+  },
+  glossary: {
+    tools: [
+      "sodax_get_glossary_overview",
+      "sodax_list_glossary_terms",
+      "sodax_get_glossary_term",
+      "sodax_search_glossary",
+      "sodax_translate_term",
+      "sodax_get_terms_by_tag",
+      "sodax_refresh_glossary",
+      "sodax_annotate_text",
+      "sodax_explore_glossary_graph",
+      "sodax_audit_glossary"
+    ],
+    resources: ["sodax://glossary", "sodax://glossary/{term}"]
+  },
+  stats: {
+    tools: [
+      "sodax_get_stats_overview",
+      "sodax_get_networks",
+      "sodax_get_partners",
+      "sodax_get_token_supply",
+      "sodax_get_money_market_assets",
+      "sodax_refresh_stats"
+    ],
+    resources: []
+  },
+  review: {
+    tools: ["sodax_review_copy"],
+    resources: []
+  },
+  search: {
+    tools: ["sodax_search_all"],
+    resources: []
+  },
+  assets: {
+    tools: ["sodax_get_brand_assets", "sodax_check_color_usage"],
+    resources: ["sodax://assets", "sodax://assets/{id}"]
+  },
+  cache: {
+    tools: ["sodax_cache_status"],
+    resources: []
+  }
+};
 
 async function runStdio(): Promise<void> {
   const transport = new StdioServerTransport();
@@ -82,6 +202,14 @@ async function runHTTP(): Promise<void> {
     message: { error: "Too many MCP requests, please try again later." }
   });
   
+  // Notion webhook — registered before the JSON parser, since the signature
+  // covers the raw request body
+  app.post("/webhooks/notion", express.raw({ type: "application/json", limit: "100kb" }), (req: Request, res: Response) => {
+    const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    const result = handleNotionWebhook(body, req.header("X-Notion-Signature"));
+    res.status(result.status).json(result.body);
+  });
+
   app.use(express.json({ limit: "100kb" }));
   app.use(express.static(join(__dirname, "public")));
 
@@ -103,6 +231,44 @@ async function runHTTP(): Promise<void> {
     await transport.handleRequest(req, res, req.body);
   });
 
+  // Brand Bible documents — PDF rendering runs a headless browser, so keep it scarce
+  const exportLimiter = rateLimit({
+    windowMs: 60 * 1000,
+    max: 10, // 10 exports per minute
+    standardHeaders: true,
+    legacyHeaders: false,
+    message: { error: "Too many export requests, please try again later." }
+  });
+
+  if (isToolGroupEnabled("brandBible")) {
+    // PDFs run a headless browser per request, so the endpoint is opt-in
+    const exportPaths = ["/export/brand-bible.html", ...(config.export.pdfEndpoint ? ["/export/brand-bible.pdf"] : [])];
+    app.get(exportPaths, exportLimiter, async (req: Request, res: Response) => {
+      const section = typeof req.query.section === "string" && req.query.section ? req.query.section : undefined;
+      try {
+        const document = await renderBrandBibleHtml(section);
+        if (!document) {
+          res.status(404).json({ error: `Section "${section}" not found` });
+          return;
+        }
+        if (req.path.endsWith(".html")) {
+          res.type("html").send(document.html);
+          return;
+        }
+        const pdf = await renderPdf(document.html);
+        res.type("pdf").setHeader("Content-Disposition", `inline; filename="${document.fileName}.pdf"`);
+        res.send(pdf);
+      } catch (error) {
+        if (error instanceof ExportError) {
+          res.status(503).json({ error: error.message });
+          return;
+        }
+        console.error("Brand Bible export failed:", error);
+        res.status(500).json({ error: "Export failed" });
+      }
+    });
+  }
+
   app.get("/", (_req: Request, res: Response) => {
     try {
       const html = readFileSync(join(__dirname, "public", "index.html"), "utf-8");
@@ -117,26 +283,25 @@ async function runHTTP(): Promise<void> {
       name: "SODAX Marketing MCP Server",
       version: "1.0.0",
       description: "Brand guidelines, technical glossary, and marketing resources for content teams",
-      endpoints: { mcp: "/mcp", health: "/health", api: "/api" },
-      tools: {
-        brandBible: [
-          "sodax_get_brand_overview",
-          "sodax_get_section",
-          "sodax_get_subsection",
-          "sodax_search_brand_bible",
-          "sodax_refresh_brand_bible",
-          "sodax_list_subsections"
-        ],
-        glossary: [
-          "sodax_get_glossary_overview",
-          "sodax_list_glossary_terms",
-          "sodax_get_glossary_term",
-          "sodax_search_glossary",
-          "sodax_translate_term",
-          "sodax_get_terms_by_tag",
-          "sodax_refresh_glossary"
-        ]
-      }
+      endpoints: {
+        mcp: "/mcp",
+        health: "/health",
+        api: "/api",
+        notionWebhook: "/webhooks/notion",
+        ...(isToolGroupEnabled("brandBible") && {
+          brandBibleHtml: "/export/brand-bible.html?section=<optional>",
+          ...(config.export.pdfEndpoint && { brandBiblePdf: "/export/brand-bible.pdf?section=<optional>" })
+        })
+      },
+      resources: config.tools.flatMap((group) => TOOL_GROUP_CATALOGUE[group].resources),
+      prompts: [
+        "sodax_tweet_thread",
+        "sodax_press_release",
+        "sodax_blog_outline",
+        "sodax_partner_announcement",
+        "sodax_explainer"
+      ],
+      tools: Object.fromEntries(config.tools.map((group) => [group, TOOL_GROUP_CATALOGUE[group].tools]))
     });
   });
 
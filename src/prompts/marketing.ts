@@ -0,0 +1,206 @@
+/**
+ * Marketing MCP Prompts
+ *
+ * Prompt templates for common marketing deliverables. Each prompt
+ * pre-assembles the relevant Brand Bible sections, glossary terms and live
+ * figures so every writer starts from the same guidelines and facts.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { fetchBrandBible } from "../services/brandBible.js";
+import { searchGlossary, translateTerm } from "../services/glossary.js";
+import { getMessagingFramework } from "../services/messaging.js";
+import { getNetworks, getStatsOverview } from "../services/stats.js";
+
+interface ContextOptions {
+  /** Brand Bible sections to include, matched against section titles */
+  sections: RegExp[];
+  /** Topic used to pick relevant glossary terms */
+  topic: string;
+  /** Include plain-language explanations alongside glossary definitions */
+  simplify?: boolean;
+  /** Include live SODAX figures */
+  includeStats?: boolean;
+}
+
+const VOICE = /voice|tone/i;
+const MESSAGING = /messaging/i;
+const CONTENT = /content guidelines/i;
+const APPLICATIONS = /applications/i;
+
+const MAX_GLOSSARY_TERMS = 6;
+
+/** Assemble Brand Bible, glossary and stats context as Markdown */
+async function buildContext({ sections, topic, simplify = false, includeStats = true }: ContextOptions): Promise<string> {
+  const brandBible = await fetchBrandBible();
+  let markdown = `## Brand Guidelines\n\n`;
+
+  for (const section of brandBible.sections) {
+    if (!sections.some((p) => p.test(section.title))) continue;
+    markdown += `### ${section.id}. ${section.title}\n\n`;
+    if (section.content) markdown += `${section.content}\n\n`;
+    for (const sub of section.subsections) {
+      markdown += `#### ${sub.id} ${sub.title}\n\n${sub.content}\n\n`;
+    }
+  }
+
+  if (sections.includes(MESSAGING)) {
+    const messaging = await getMessagingFramework();
+    if (messaging && (messaging.positioningStatement || messaging.taglines.length > 0)) {
+      markdown += `## Approved Wording\n\nQuote these exactly as written — never paraphrase them:\n\n`;
+      if (messaging.positioningStatement) markdown += `- Positioning statement: "${messaging.positioningStatement.text}"\n`;
+      for (const tagline of messaging.taglines) markdown += `- Tagline: "${tagline.text}"\n`;
+      markdown += `\n`;
+    }
+  }
+
+  const terms = (await searchGlossary(topic)).slice(0, MAX_GLOSSARY_TERMS);
+  if (terms.length > 0) {
+    markdown += `## Glossary Terms\n\n`;
+    for (const term of terms) {
+      markdown += `- **${term.title}** — ${term.summary}\n`;
+      if (simplify) {
+        const translation = await translateTerm(term.title);
+        if (translation) markdown += `  - *In plain language:* ${translation.simpleExplanation}\n`;
+      }
+    }
+    markdown += `\n`;
+  }
+
+  if (includeStats) {
+    const [overview, networks] = await Promise.all([getStatsOverview(), getNetworks()]);
+    markdown += `## Live Figures (as of ${overview.lastUpdated})\n\n`;
+    markdown += `- Integrated networks: ${overview.networkCount}${networks.length > 0 ? ` (${networks.map((n) => n.name).join(", ")})` : ""}\n`;
+    markdown += `- Partner integrations: ${overview.partnerCount}\n`;
+    markdown += `- SODA total supply: ${overview.totalSupply}\n`;
+    markdown += `- SODA circulating supply: ${overview.circulatingSupply}\n`;
+    markdown += `- Money market assets: ${overview.moneyMarketAssetCount}\n`;
+    markdown += `- Intents in the solver orderbook: ${overview.recentIntentsCount}\n\n`;
+    markdown += `Only quote figures from this list, and say they are current as of the date above.\n`;
+  }
+
+  return markdown;
+}
+
+/** Wrap instructions and context as a single user prompt message */
+function promptMessage(instructions: string, context: string) {
+  return {
+    messages: [{
+      role: "user" as const,
+      content: {
+        type: "text" as const,
+        text: `${instructions}\n\nFollow the SODAX brand guidelines below. Use glossary terms exactly as written.\n\n---\n\n${context}`
+      }
+    }]
+  };
+}
+
+/**
+ * Register all marketing prompts with the MCP server
+ */
+export function registerMarketingPrompts(server: McpServer): void {
+
+  // Prompt 1: Tweet Thread
+  server.prompt(
+    "sodax_tweet_thread",
+    "Draft an X/Twitter thread about a SODAX topic, with brand voice, glossary terms and live figures pre-loaded.",
+    {
+      topic: z.string().describe("What the thread is about (e.g. 'cross-network money market')"),
+      audience: z.string().optional().describe("Target audience (default: crypto-native community)"),
+      length: z.string().optional().describe("Number of posts in the thread (default: 5)")
+    },
+    async ({ topic, audience, length }) => {
+      const context = await buildContext({ sections: [VOICE, MESSAGING, CONTENT], topic });
+      return promptMessage(
+        `Write an X/Twitter thread of ${length ?? "5"} posts about **${topic}** for ${audience ?? "the crypto-native community"}. ` +
+          `Keep each post under 280 characters, open with a hook, and end with a clear call to action.`,
+        context
+      );
+    }
+  );
+
+  // Prompt 2: Press Release
+  server.prompt(
+    "sodax_press_release",
+    "Draft a press release for a SODAX announcement, using the messaging framework and live figures.",
+    {
+      topic: z.string().describe("The announcement (e.g. 'SODAX launches on Sui')"),
+      audience: z.string().optional().describe("Target publications or readers (default: crypto and fintech press)"),
+      channel: z.string().optional().describe("Distribution channel (e.g. 'newswire', 'blog', 'email')")
+    },
+    async ({ topic, audience, channel }) => {
+      const context = await buildContext({ sections: [VOICE, MESSAGING, CONTENT, APPLICATIONS], topic });
+      return promptMessage(
+        `Write a press release announcing **${topic}** for ${audience ?? "crypto and fintech press"}` +
+          `${channel ? `, to be distributed via ${channel}` : ""}. ` +
+          `Use a headline, subheadline, dateline, lead paragraph, supporting paragraphs with at least one quote, ` +
+          `and an "About SODAX" boilerplate drawn from the positioning statement.`,
+        context
+      );
+    }
+  );
+
+  // Prompt 3: Blog Outline
+  server.prompt(
+    "sodax_blog_outline",
+    "Outline a blog post on a SODAX topic, with brand guidelines and relevant glossary terms.",
+    {
+      topic: z.string().describe("The blog post topic"),
+      audience: z.string().optional().describe("Target audience (default: builders and DeFi users)"),
+      channel: z.string().optional().describe("Where it will be published (e.g. 'SODAX blog', 'Medium', 'Mirror')")
+    },
+    async ({ topic, audience, channel }) => {
+      const context = await buildContext({ sections: [VOICE, MESSAGING, CONTENT], topic });
+      return promptMessage(
+        `Create a blog post outline about **${topic}** for ${audience ?? "builders and DeFi users"}` +
+          `${channel ? ` on ${channel}` : ""}. ` +
+          `Propose a title, a one-paragraph intro, 4–6 H2 sections with key points, and a conclusion with a call to action. ` +
+          `Note which glossary terms each section should define.`,
+        context
+      );
+    }
+  );
+
+  // Prompt 4: Partner Announcement
+  server.prompt(
+    "sodax_partner_announcement",
+    "Draft a partner or integration announcement, with brand voice, messaging and live network/partner figures.",
+    {
+      partner: z.string().describe("The partner or integration being announced"),
+      topic: z.string().optional().describe("What the partnership enables (default: the integration itself)"),
+      channel: z.string().optional().describe("Channel (e.g. 'X', 'blog', 'Discord') — default: X and blog")
+    },
+    async ({ partner, topic, channel }) => {
+      const subject = topic ?? `${partner} integration`;
+      const context = await buildContext({ sections: [VOICE, MESSAGING, APPLICATIONS], topic: subject });
+      return promptMessage(
+        `Draft an announcement of SODAX's partnership with **${partner}** (${subject}) for ${channel ?? "X and the SODAX blog"}. ` +
+          `Explain what it means for users of both ecosystems, keep the focus on concrete outcomes, ` +
+          `and avoid claims that are not backed by the figures provided.`,
+        context
+      );
+    }
+  );
+
+  // Prompt 5: Non-technical Explainer
+  server.prompt(
+    "sodax_explainer",
+    "Write an explainer of a SODAX concept for a non-technical audience, with plain-language glossary translations.",
+    {
+      topic: z.string().describe("The concept to explain (e.g. 'Solver', 'sodaVariants')"),
+      audience: z.string().optional().describe("Who it is for (default: people new to crypto)"),
+      channel: z.string().optional().describe("Format or channel (e.g. 'blog', 'newsletter', 'video script')")
+    },
+    async ({ topic, audience, channel }) => {
+      const context = await buildContext({ sections: [VOICE, CONTENT], topic, simplify: true, includeStats: false });
+      return promptMessage(
+        `Explain **${topic}** to ${audience ?? "people new to crypto"}` +
+          `${channel ? ` as a ${channel}` : ""}. ` +
+          `Avoid jargon; where a technical term is unavoidable, introduce it with its plain-language explanation. ` +
+          `Use one everyday analogy and finish with why it matters to the reader.`,
+        context
+      );
+    }
+  );
+}
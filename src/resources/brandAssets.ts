@@ -0,0 +1,77 @@
+/**
+ * Brand Asset MCP Resources
+ *
+ * Exposes the SODAX brand asset catalogue as resources:
+ * - sodax://assets        — all assets and colors with metadata (JSON)
+ * - sodax://assets/{id}   — the asset image itself (PNG, or SVG if no PNG exists)
+ */
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { BRAND_ASSETS } from "../constants.js";
+import { getBrandAssetCatalogue, readBrandAssetImage } from "../services/brandAssets.js";
+import { contentEvents } from "../services/contentEvents.js";
+import { notifyResourcesUpdated } from "./subscriptions.js";
+
+const CATALOGUE_URI = "sodax://assets";
+
+function assetUri(id: string): string {
+  return `${CATALOGUE_URI}/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Register brand asset resources with the MCP server
+ */
+export function registerBrandAssetResources(server: McpServer): void {
+
+  // Resource 1: Catalogue
+  server.resource(
+    "brand-assets",
+    CATALOGUE_URI,
+    {
+      description: "SODAX logos, symbol, token icon and brand colors with formats, dimensions, public URLs and usage rules",
+      mimeType: "application/json"
+    },
+    async (uri) => {
+      const catalogue = await getBrandAssetCatalogue();
+      return {
+        contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(catalogue, null, 2) }]
+      };
+    }
+  );
+
+  // Resource 2: Asset image
+  server.resource(
+    "brand-asset-image",
+    new ResourceTemplate(`${CATALOGUE_URI}/{id}`, {
+      list: async () => ({
+        resources: BRAND_ASSETS.map((asset) => ({
+          uri: assetUri(asset.id),
+          name: asset.name,
+          description: `${asset.kind}, for ${asset.background === "any" ? "any" : asset.background} backgrounds`,
+          mimeType: "png" in asset.files ? "image/png" : "image/svg+xml"
+        }))
+      }),
+      complete: {
+        id: async (value) => BRAND_ASSETS.map((a) => a.id).filter((id) => id.startsWith(value))
+      }
+    }),
+    {
+      description: "A brand asset image (e.g. sodax://assets/sodax-logo-on-dark)",
+      mimeType: "image/png"
+    },
+    async (uri, { id }) => {
+      const image = await readBrandAssetImage(decodeURIComponent(String(id)));
+      if (!image) {
+        throw new Error(`Brand asset "${id}" not found. Available: ${BRAND_ASSETS.map((a) => a.id).join(", ")}`);
+      }
+      return {
+        contents: [{ uri: uri.href, mimeType: image.mimeType, blob: image.data }]
+      };
+    }
+  );
+
+  // Usage rules come from the Brand Bible, so the catalogue changes with it
+  contentEvents.on("brandBibleChanged", (previous) => {
+    if (previous) notifyResourcesUpdated(server, [CATALOGUE_URI]);
+  });
+}
@@ -0,0 +1,155 @@
+/**
+ * Brand Bible MCP Resources
+ *
+ * Exposes the SODAX Brand Bible as resources so clients can pin guidelines
+ * into context without spending tool calls:
+ * - sodax://brand          — overview with all sections
+ * - sodax://brand/{id}     — a section or subsection by slug ("visual-identity",
+ *                            "visual-identity%2Fcolor-palette") or number ("3.1")
+ *
+ * Listed URIs use slugs, so subscriptions survive reordering in Notion.
+ */
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { fetchBrandBible, getBrandOverview, resolveSection, resolveSubsection } from "../services/brandBible.js";
+import { contentEvents } from "../services/contentEvents.js";
+import type { BrandBible, BrandSection, BrandSubsection } from "../types.js";
+import { notifyResourcesUpdated } from "./subscriptions.js";
+
+const OVERVIEW_URI = "sodax://brand";
+
+function brandUri(slug: string): string {
+  return `${OVERVIEW_URI}/${encodeURIComponent(slug)}`;
+}
+
+function formatSection(section: BrandSection): string {
+  let markdown = `# Section ${section.id}: ${section.title}\n\n`;
+  markdown += section.content + "\n\n";
+  for (const sub of section.subsections) {
+    markdown += `## ${sub.id} ${sub.title}\n\n${sub.content}\n\n`;
+  }
+  return markdown;
+}
+
+function formatSubsection(subsection: BrandSubsection): string {
+  return `# ${subsection.id} ${subsection.title}\n\n${subsection.content}`;
+}
+
+/** URIs whose content differs between two versions of the Brand Bible */
+function changedUris(previous: BrandBible | null, current: BrandBible): { uris: string[]; listChanged: boolean } {
+  const before = new Map<string, string>();
+  for (const section of previous?.sections ?? []) {
+    before.set(section.slug, formatSection(section));
+    for (const sub of section.subsections) before.set(sub.slug, formatSubsection(sub));
+  }
+
+  const uris: string[] = [];
+  const seen = new Set<string>();
+  for (const section of current.sections) {
+    for (const [id, text] of [
+      [section.slug, formatSection(section)],
+      ...section.subsections.map((sub) => [sub.slug, formatSubsection(sub)]),
+    ]) {
+      seen.add(id);
+      if (before.get(id) !== text) uris.push(brandUri(id));
+    }
+  }
+
+  const listChanged = seen.size !== before.size || [...before.keys()].some((id) => !seen.has(id));
+  if (uris.length > 0 || listChanged) uris.push(OVERVIEW_URI);
+  return { uris, listChanged };
+}
+
+/**
+ * Register Brand Bible resources with the MCP server
+ */
+export function registerBrandBibleResources(server: McpServer): void {
+
+  // Resource 1: Overview
+  server.resource(
+    "brand-bible-overview",
+    OVERVIEW_URI,
+    {
+      description: "Overview of the SODAX Brand Bible with all sections and subsections",
+      mimeType: "text/markdown"
+    },
+    async (uri) => {
+      const overview = await getBrandOverview();
+      const brandBible = await fetchBrandBible();
+
+      let markdown = `# ${overview.title}\n\n`;
+      markdown += `**Last Updated:** ${overview.lastUpdated}\n\n`;
+      for (const section of brandBible.sections) {
+        markdown += `## ${section.id}. ${section.title}\n\n\`${brandUri(section.slug)}\`\n\n`;
+        for (const sub of section.subsections) {
+          markdown += `- ${sub.id} ${sub.title} — \`${brandUri(sub.slug)}\`\n`;
+        }
+        markdown += `\n`;
+      }
+
+      return {
+        contents: [{ uri: uri.href, mimeType: "text/markdown", text: markdown }]
+      };
+    }
+  );
+
+  // Resource 2: Section or subsection
+  server.resource(
+    "brand-bible-section",
+    new ResourceTemplate(`${OVERVIEW_URI}/{id}`, {
+      list: async () => {
+        const brandBible = await fetchBrandBible();
+        return {
+          resources: brandBible.sections.flatMap((section) => [
+            {
+              uri: brandUri(section.slug),
+              name: `${section.id}. ${section.title}`,
+              mimeType: "text/markdown"
+            },
+            ...section.subsections.map((sub) => ({
+              uri: brandUri(sub.slug),
+              name: `${sub.id} ${sub.title}`,
+              description: `In ${section.title}`,
+              mimeType: "text/markdown"
+            }))
+          ])
+        };
+      },
+      complete: {
+        id: async (value) => {
+          const brandBible = await fetchBrandBible();
+          const slugs = brandBible.sections.flatMap((s) => [s.slug, ...s.subsections.map((sub) => sub.slug)]);
+          return slugs.filter((slug) => slug.startsWith(value));
+        }
+      }
+    }),
+    {
+      description: "A Brand Bible section (e.g. sodax://brand/visual-identity) or subsection (e.g. sodax://brand/visual-identity%2Fcolor-palette); numbers like sodax://brand/3.1 also resolve",
+      mimeType: "text/markdown"
+    },
+    async (uri, { id }) => {
+      const ref = decodeURIComponent(String(id));
+      const [section, subsection] = await Promise.all([resolveSection(ref), resolveSubsection(ref)]);
+      // Prefer an exact reference over a fuzzy title match on the other level
+      const match = [section, subsection].find((r) => r && r.matchedBy !== "title") ?? section ?? subsection;
+
+      if (!match) {
+        throw new Error(`Brand Bible section or subsection "${ref}" not found`);
+      }
+
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: "text/markdown",
+          text: section && match === section ? formatSection(section.item) : formatSubsection(subsection!.item)
+        }]
+      };
+    }
+  );
+
+  contentEvents.on("brandBibleChanged", (previous, current) => {
+    const { uris, listChanged } = changedUris(previous, current);
+    if (listChanged) server.sendResourceListChanged();
+    notifyResourcesUpdated(server, uris);
+  });
+}
@@ -0,0 +1,122 @@
+/**
+ * Technical Glossary MCP Resources
+ *
+ * Exposes glossary terms as resources:
+ * - sodax://glossary          — all terms with one-sentence summaries
+ * - sodax://glossary/{term}   — a single term by title
+ */
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { contentEvents } from "../services/contentEvents.js";
+import { fetchGlossary, getAllTerms } from "../services/glossary.js";
+import type { GlossaryData, GlossaryTerm } from "../services/glossary.js";
+import { notifyResourcesUpdated } from "./subscriptions.js";
+
+const OVERVIEW_URI = "sodax://glossary";
+
+function termUri(title: string): string {
+  return `${OVERVIEW_URI}/${encodeURIComponent(title)}`;
+}
+
+function formatTerm(term: GlossaryTerm): string {
+  let markdown = `# ${term.title}\n\n`;
+  markdown += `**Category:** ${term.category === "system-concept" ? "System Concept" : "System Component"}\n\n`;
+  markdown += `${term.summary}\n`;
+  if (term.aliases.length > 0) {
+    markdown += `\n**Also known as:** ${term.aliases.join(", ")}\n`;
+  }
+  if (term.tags.length > 0) {
+    markdown += `\n**Tags:** ${term.tags.map((t) => `\`${t}\``).join(", ")}\n`;
+  }
+  return markdown;
+}
+
+/** URIs whose content differs between two versions of the glossary */
+function changedUris(previous: GlossaryData | null, current: GlossaryData): { uris: string[]; listChanged: boolean } {
+  const before = new Map((previous?.terms ?? []).map((t) => [t.title, formatTerm(t)]));
+  const after = new Map(current.terms.map((t) => [t.title, formatTerm(t)]));
+
+  const uris = [...after].filter(([title, text]) => before.get(title) !== text).map(([title]) => termUri(title));
+  const removed = [...before.keys()].filter((title) => !after.has(title));
+  const listChanged = removed.length > 0 || [...after.keys()].some((title) => !before.has(title));
+
+  if (uris.length > 0 || listChanged) uris.push(OVERVIEW_URI);
+  return { uris, listChanged };
+}
+
+/**
+ * Register glossary resources with the MCP server
+ */
+export function registerGlossaryResources(server: McpServer): void {
+
+  // Resource 1: All terms
+  server.resource(
+    "glossary-overview",
+    OVERVIEW_URI,
+    {
+      description: "All SODAX Technical Glossary terms with one-sentence summaries",
+      mimeType: "text/markdown"
+    },
+    async (uri) => {
+      const glossary = await fetchGlossary();
+
+      let markdown = `# ${glossary.title}\n\n`;
+      markdown += `**Last Updated:** ${glossary.lastUpdated.toISOString()}\n\n`;
+      for (const term of glossary.terms) {
+        markdown += `- **${term.title}** — ${term.summary}\n`;
+      }
+
+      return {
+        contents: [{ uri: uri.href, mimeType: "text/markdown", text: markdown }]
+      };
+    }
+  );
+
+  // Resource 2: Single term
+  server.resource(
+    "glossary-term",
+    new ResourceTemplate(`${OVERVIEW_URI}/{term}`, {
+      list: async () => {
+        const terms = await getAllTerms();
+        return {
+          resources: terms.map((term) => ({
+            uri: termUri(term.title),
+            name: term.title,
+            description: term.summary,
+            mimeType: "text/markdown"
+          }))
+        };
+      },
+      complete: {
+        term: async (value) => {
+          const terms = await getAllTerms();
+          const q = value.toLowerCase();
+          return terms.map((t) => t.title).filter((title) => title.toLowerCase().startsWith(q));
+        }
+      }
+    }),
+    {
+      description: "A single glossary term by title (e.g. sodax://glossary/Solver)",
+      mimeType: "text/markdown"
+    },
+    async (uri, { term }) => {
+      const title = decodeURIComponent(String(term)).toLowerCase();
+      const terms = await getAllTerms();
+      const match = terms.find((t) => t.title.toLowerCase() === title);
+
+      if (!match) {
+        throw new Error(`Glossary term "${decodeURIComponent(String(term))}" not found`);
+      }
+
+      return {
+        contents: [{ uri: uri.href, mimeType: "text/markdown", text: formatTerm(match) }]
+      };
+    }
+  );
+
+  contentEvents.on("glossaryChanged", (previous, current) => {
+    const { uris, listChanged } = changedUris(previous, current);
+    if (listChanged) server.sendResourceListChanged();
+    notifyResourcesUpdated(server, uris);
+  });
+}
@@ -0,0 +1,49 @@
+/**
+ * Resource Subscriptions
+ *
+ * Tracks which resource URIs clients have subscribed to and sends
+ * `notifications/resources/updated` when their content changes.
+ *
+ * Subscriptions are held per server process. Over stdio this maps to the
+ * connected client; over stateless HTTP there is no long-lived session to
+ * notify, so updates are only delivered while a request is in flight.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+
+const subscribedUris = new Set<string>();
+
+/**
+ * Advertise subscription support and handle subscribe/unsubscribe requests
+ */
+export function enableResourceSubscriptions(server: McpServer): void {
+  server.server.registerCapabilities({
+    resources: { subscribe: true, listChanged: true }
+  });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscribedUris.add(request.params.uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscribedUris.delete(request.params.uri);
+    return {};
+  });
+}
+
+/**
+ * Notify subscribers that the given resources changed. URIs nobody subscribed
+ * to are skipped.
+ */
+export function notifyResourcesUpdated(server: McpServer, uris: string[]): void {
+  if (!server.isConnected()) return;
+
+  for (const uri of uris) {
+    if (!subscribedUris.has(uri)) continue;
+    server.server.sendResourceUpdated({ uri }).catch((error) => {
+      console.error(`Error sending resource update for ${uri}:`, error);
+    });
+  }
+}
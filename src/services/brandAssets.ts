@@ -0,0 +1,211 @@
+/**
+ * Brand Assets Service
+ *
+ * Catalogue of the SODAX logos, symbol, token imagery and brand colors.
+ * Asset metadata comes from BRAND_ASSETS; file formats and dimensions are
+ * read from the images bundled under public/, and usage rules are pulled
+ * from the Visual Identity guidance in the Brand Bible.
+ */
+
+import { readFile, stat } from "fs/promises";
+import { extname } from "path";
+import { fileURLToPath } from "url";
+import { BRAND_ASSETS, BRAND_COLORS, PUBLIC_BASE_URL } from "../constants.js";
+import { fetchBrandBible } from "./brandBible.js";
+import { escapeRegExp } from "./textMatching.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type AssetKind = (typeof BRAND_ASSETS)[number]["kind"];
+export type AssetBackground = "dark" | "light" | "any";
+export type AssetFormat = "svg" | "png";
+
+export interface AssetFile {
+  format: AssetFormat;
+  mimeType: string;
+  /** Absolute public URL */
+  url: string;
+  width: number | null;
+  height: number | null;
+  bytes: number;
+}
+
+export interface BrandAsset {
+  id: string;
+  name: string;
+  kind: AssetKind;
+  variant: string;
+  /** Backgrounds the asset is designed for */
+  background: AssetBackground;
+  files: AssetFile[];
+  /** Guidance from the Brand Bible that mentions this kind of asset */
+  usageRules: string[];
+}
+
+export interface BrandColor {
+  name: string;
+  hex: string;
+  rgb: [number, number, number];
+  usageRules: string[];
+}
+
+export interface BrandAssetCatalogue {
+  assets: BrandAsset[];
+  colors: BrandColor[];
+}
+
+// ---------------------------------------------------------------------------
+// Files
+// ---------------------------------------------------------------------------
+
+/** Bundled static files — src/public in development, dist/public after build */
+const PUBLIC_DIR = fileURLToPath(new URL("../public/", import.meta.url));
+
+const MIME_TYPES: Record<AssetFormat, string> = {
+  svg: "image/svg+xml",
+  png: "image/png",
+};
+
+/** Pixel dimensions from a PNG's IHDR chunk, or an SVG's width/height (or viewBox) */
+function readDimensions(data: Buffer, format: AssetFormat): { width: number | null; height: number | null } {
+  if (format === "png") {
+    if (data.length < 24 || data.toString("ascii", 12, 16) !== "IHDR") return { width: null, height: null };
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  const svgTag = data.toString("utf-8").match(/<svg\b[^>]*>/i)?.[0] ?? "";
+  const attr = (name: string) => {
+    const value = svgTag.match(new RegExp(`\\s${name}="([\\d.]+)(?:px)?"`))?.[1];
+    return value ? Math.round(parseFloat(value)) : null;
+  };
+  const viewBox = svgTag.match(/viewBox="[\d.\-]+[\s,]+[\d.\-]+[\s,]+([\d.]+)[\s,]+([\d.]+)"/);
+  return {
+    width: attr("width") ?? (viewBox ? Math.round(parseFloat(viewBox[1])) : null),
+    height: attr("height") ?? (viewBox ? Math.round(parseFloat(viewBox[2])) : null),
+  };
+}
+
+// Bundled files don't change at runtime, so their metadata is read once
+const fileCache = new Map<string, AssetFile>();
+
+async function describeFile(path: string): Promise<AssetFile> {
+  const cached = fileCache.get(path);
+  if (cached) return cached;
+
+  const format = extname(path).slice(1).toLowerCase() as AssetFormat;
+  const fullPath = PUBLIC_DIR + path;
+  const [data, info] = await Promise.all([readFile(fullPath), stat(fullPath)]);
+  const file: AssetFile = {
+    format,
+    mimeType: MIME_TYPES[format],
+    url: `${PUBLIC_BASE_URL}/${path.split("/").map(encodeURIComponent).join("/")}`,
+    ...readDimensions(data, format),
+    bytes: info.size,
+  };
+  fileCache.set(path, file);
+  return file;
+}
+
+// ---------------------------------------------------------------------------
+// Usage rules
+// ---------------------------------------------------------------------------
+
+/** Words that mark Brand Bible guidance as relevant to an asset kind */
+const KIND_KEYWORDS: Record<AssetKind, string[]> = {
+  logo: ["logo", "wordmark", "logotype"],
+  symbol: ["symbol", "brand mark", "icon"],
+  token: ["token", "SODA icon"],
+  social: ["social", "link preview", "og image", "thumbnail"],
+};
+
+/** Statements from the Visual Identity guidance (and any logo/color sections) */
+async function visualGuidelines(): Promise<string[]> {
+  const brandBible = await fetchBrandBible();
+  const relevant = /visual|logo|colou?r|palette|brand assets|imagery/i;
+  const texts: string[] = [];
+
+  for (const section of brandBible.sections) {
+    const sectionRelevant = relevant.test(section.title);
+    if (sectionRelevant) texts.push(section.content);
+    for (const sub of section.subsections) {
+      if (sectionRelevant || relevant.test(sub.title)) texts.push(sub.content);
+    }
+  }
+
+  return texts
+    .flatMap((text) => text.split("\n"))
+    .map((line) => line.replace(/^(?:\s*(?:[-*>]|\d+\.|\[[ x]\]))+\s*/, "").replace(/\*\*/g, "").trim())
+    .filter((line) => line.length > 0 && line.length <= 300 && !line.startsWith("|") && !line.startsWith("!["));
+}
+
+function rulesMentioning(lines: string[], keywords: string[], limit = 8): string[] {
+  if (keywords.length === 0) return [];
+  const pattern = new RegExp(`(?:^|[^\\p{L}\\p{N}_])(?:${keywords.map(escapeRegExp).join("|")})`, "iu");
+  return [...new Set(lines.filter((line) => pattern.test(line)))].slice(0, limit);
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+export async function getBrandAssetCatalogue(
+  filter: { kind?: AssetKind | "color"; background?: AssetBackground } = {}
+): Promise<BrandAssetCatalogue> {
+  const guidelines = await visualGuidelines();
+
+  const assets: BrandAsset[] = [];
+  if (filter.kind !== "color") {
+    for (const asset of BRAND_ASSETS) {
+      if (filter.kind && asset.kind !== filter.kind) continue;
+      // "any" assets suit every background; a "dark" filter excludes light-only assets and vice versa
+      if (filter.background && filter.background !== "any" && asset.background !== "any" && asset.background !== filter.background) {
+        continue;
+      }
+      assets.push({
+        id: asset.id,
+        name: asset.name,
+        kind: asset.kind,
+        variant: asset.variant,
+        background: asset.background,
+        files: await Promise.all(Object.values(asset.files).map(describeFile)),
+        usageRules: rulesMentioning(guidelines, KIND_KEYWORDS[asset.kind]),
+      });
+    }
+  }
+
+  const colors: BrandColor[] =
+    filter.kind && filter.kind !== "color"
+      ? []
+      : Object.entries(BRAND_COLORS).map(([name, hex]) => ({
+          name,
+          hex,
+          rgb: hexToRgb(hex),
+          usageRules: rulesMentioning(guidelines, [name, hex, hex.slice(1)], 5),
+        }));
+
+  return { assets, colors };
+}
+
+/**
+ * The asset's image as base64, in the requested format if available
+ * (PNG by default, since not every client renders SVG)
+ */
+export async function readBrandAssetImage(
+  id: string,
+  format: AssetFormat = "png"
+): Promise<{ data: string; mimeType: string; format: AssetFormat } | null> {
+  const asset = BRAND_ASSETS.find((a) => a.id === id.trim().toLowerCase());
+  if (!asset) return null;
+
+  const files: Partial<Record<AssetFormat, string>> = asset.files;
+  const chosen: AssetFormat = files[format] ? format : (Object.keys(files)[0] as AssetFormat);
+  const data = await readFile(PUBLIC_DIR + files[chosen]!);
+  return { data: data.toString("base64"), mimeType: MIME_TYPES[chosen], format: chosen };
+}
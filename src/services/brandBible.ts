@@ -2,17 +2,15 @@
  * Brand Bible Service
  *
  * Fetches the SODAX Brand Bible from a Notion page via the Notion API.
- * The page content is retrieved using blocks.children.list and parsed into
- * sections and subsections based on heading hierarchy.
+ * The page content is retrieved using blocks.children.list, rendered to
+ * Markdown and parsed into sections and subsections based on heading hierarchy.
  *
- * Implements caching with auto-refresh every 5 minutes.
+ * Implements caching with auto-refresh every 5 minutes. The last good copy is
+ * persisted to disk and served after a restart (or when Notion is
+ * unreachable) while a background refresh fetches the current version.
  */
 
 import { Client as NotionClient } from "@notionhq/client";
-import type {
-  BlockObjectResponse,
-  RichTextItemResponse,
-} from "@notionhq/client/build/src/api-endpoints.js";
 import {
   BrandBible,
   BrandSection,
@@ -20,10 +18,14 @@ import {
   BrandOverview,
   SearchResult,
 } from "../types.js";
-import { BRAND_BIBLE_PAGE_ID, CACHE_DURATION_MS, BRAND_SECTIONS } from "../constants.js";
-
-let cachedBrandBible: BrandBible | null = null;
-let lastFetchTime: Date | null = null;
+import { BRAND_SECTIONS } from "../constants.js";
+import { getConfig } from "../config.js";
+import { CacheStatus, createCachedSource, formatRefreshFailure } from "./cacheManager.js";
+import { getRedirect, recordSnapshot, SectionRedirect } from "./brandBibleHistory.js";
+import { contentEvents } from "./contentEvents.js";
+import { closestMatches, expandSynonyms, flexiblePattern, normalizeTerm, slugify } from "./textMatching.js";
+import { fetchBlockTree, NotionBlockNode } from "./notionBlocks.js";
+import { blockSeparator, blockToMarkdown, renderBlockSequence, richTextToPlain } from "./notionMarkdown.js";
 
 // ---------------------------------------------------------------------------
 // Notion client (lazy-initialised)
@@ -36,7 +38,7 @@ function getNotionClient(): NotionClient | null {
   const token = process.env.NOTION_TOKEN;
   if (!token) {
     console.error(
-      "NOTION_TOKEN not set — Brand Bible will use hardcoded fallback data. " +
+      "NOTION_TOKEN not set — Brand Bible will be served from the disk cache or hardcoded fallback data. " +
         "Set the NOTION_TOKEN environment variable for live Notion sync."
     );
     return null;
@@ -49,121 +51,143 @@ function getNotionClient(): NotionClient | null {
 // Cache
 // ---------------------------------------------------------------------------
 
-function isCacheValid(): boolean {
-  if (!cachedBrandBible || !lastFetchTime) return false;
-  return Date.now() - lastFetchTime.getTime() < CACHE_DURATION_MS;
-}
-
-// ---------------------------------------------------------------------------
-// Notion block helpers
-// ---------------------------------------------------------------------------
+const brandBibleCache = createCachedSource<BrandBible>({
+  name: "brand-bible",
+  label: "Brand Bible",
+  ttlSeconds: () => getConfig().cache.brandBibleTtlSeconds,
+  load: loadFromNotion,
+  fallback: createDefaultBrandBible,
+  revive: reviveBrandBible,
+  // Announce the change if the content differs
+  onUpdate: (previous, current) => {
+    if (!previous || JSON.stringify(previous.sections) !== JSON.stringify(current.sections)) {
+      contentEvents.emit("brandBibleChanged", previous, current);
+    }
+  },
+});
 
-/** Extract plain text from a Notion rich-text array */
-function richTextToPlain(rt: RichTextItemResponse[]): string {
-  return rt.map((t) => t.plain_text).join("");
+function reviveBrandBible(data: unknown): BrandBible | null {
+  const brandBible = data as BrandBible | null;
+  if (!brandBible || !Array.isArray(brandBible.sections) || brandBible.sections.length === 0) return null;
+  return { ...brandBible, lastUpdated: new Date(brandBible.lastUpdated) };
 }
 
-/** Check if a block is a text-containing block and extract its text */
-function getBlockText(block: BlockObjectResponse): string {
-  switch (block.type) {
-    case "paragraph":
-      return richTextToPlain(block.paragraph.rich_text);
-    case "heading_1":
-      return richTextToPlain(block.heading_1.rich_text);
-    case "heading_2":
-      return richTextToPlain(block.heading_2.rich_text);
-    case "heading_3":
-      return richTextToPlain(block.heading_3.rich_text);
-    case "bulleted_list_item":
-      return "• " + richTextToPlain(block.bulleted_list_item.rich_text);
-    case "numbered_list_item":
-      return richTextToPlain(block.numbered_list_item.rich_text);
-    case "toggle":
-      return richTextToPlain(block.toggle.rich_text);
-    case "quote":
-      return richTextToPlain(block.quote.rich_text);
-    case "callout":
-      return richTextToPlain(block.callout.rich_text);
-    case "code":
-      return richTextToPlain(block.code.rich_text);
-    case "to_do":
-      return (block.to_do.checked ? "☑ " : "☐ ") + richTextToPlain(block.to_do.rich_text);
-    case "divider":
-      return "---";
-    default:
-      return "";
-  }
-}
+/** Block types that only arrange their children and carry no content of their own */
+const LAYOUT_BLOCK_TYPES = new Set(["column_list", "column", "synced_block"]);
 
-/** Fetch all blocks from a Notion page (handles pagination) */
-async function fetchAllBlocks(notion: NotionClient, blockId: string): Promise<BlockObjectResponse[]> {
-  const blocks: BlockObjectResponse[] = [];
-  let cursor: string | undefined;
-
-  do {
-    const response = await notion.blocks.children.list({
-      block_id: blockId,
-      start_cursor: cursor,
-      page_size: 100,
-    });
-
-    for (const block of response.results) {
-      if ("type" in block) {
-        blocks.push(block as BlockObjectResponse);
-      }
+/**
+ * Lift nested content that affects the section structure into the top-level
+ * stream: headings inside column layouts or synced blocks, and the content of
+ * toggleable headings, which belongs to the heading's section.
+ */
+function flattenForParsing(nodes: NotionBlockNode[]): NotionBlockNode[] {
+  const flat: NotionBlockNode[] = [];
+
+  for (const node of nodes) {
+    const type = node.block.type;
+    if (LAYOUT_BLOCK_TYPES.has(type)) {
+      flat.push(...flattenForParsing(node.children));
+    } else if (type.startsWith("heading_") && node.children.length > 0) {
+      flat.push({ ...node, children: [] }, ...flattenForParsing(node.children));
+    } else {
+      flat.push(node);
     }
+  }
 
-    cursor = response.has_more ? (response.next_cursor ?? undefined) : undefined;
-  } while (cursor);
+  return flat;
+}
 
-  return blocks;
+/** Slug that is not yet taken, suffixed "-2", "-3"… on collision */
+function uniqueSlug(title: string, taken: Set<string>, prefix = ""): string {
+  const base = prefix + slugify(title);
+  let slug = base;
+  for (let n = 2; taken.has(slug); n++) slug = `${base}-${n}`;
+  taken.add(slug);
+  return slug;
 }
 
-/** Parse Notion blocks into Brand Bible structure */
-function parseBlocksIntoBrandBible(blocks: BlockObjectResponse[]): BrandBible {
+/**
+ * Parse Notion blocks into Brand Bible structure. Pulled-in child pages at the
+ * top level (or in a column layout or toggleable heading) become sections of
+ * their own, appended after the page's own sections; pages nested in a toggle
+ * or list item are rendered in place, beneath their title.
+ */
+function parseBlocksIntoBrandBible(nodes: NotionBlockNode[]): BrandBible {
   const sections: BrandSection[] = [];
+  const pages: NotionBlockNode[] = [];
   let currentSection: BrandSection | null = null;
   let currentSubsection: BrandSubsection | null = null;
-  let sectionIndex = 0;
   let subsectionIndex = 0;
+  let previousType: string | null = null;
+  const slugs = new Set<string>();
+
+  const startSection = (title: string, blockId: string) => {
+    subsectionIndex = 0;
+    currentSection = {
+      id: String(sections.length + 1),
+      slug: uniqueSlug(title, slugs),
+      blockId,
+      title,
+      content: "",
+      subsections: [],
+    };
+    sections.push(currentSection);
+    currentSubsection = null;
+  };
 
-  for (const block of blocks) {
-    const text = getBlockText(block).trim();
-    if (!text) continue;
-
-    if (block.type === "heading_1") {
-      // New main section
-      sectionIndex++;
-      subsectionIndex = 0;
-      currentSection = {
-        id: String(sectionIndex),
-        title: text,
-        content: "",
-        subsections: [],
-      };
-      sections.push(currentSection);
-      currentSubsection = null;
-    } else if (block.type === "heading_2" && currentSection) {
-      // New subsection
-      subsectionIndex++;
-      currentSubsection = {
-        id: `${currentSection.id}.${subsectionIndex}`,
-        parentId: currentSection.id,
-        title: text,
-        content: "",
-      };
-      currentSection.subsections.push(currentSubsection);
-    } else if (block.type === "heading_3" && currentSubsection) {
-      // Append heading_3 as bold content within subsection
-      currentSubsection.content += (currentSubsection.content ? "\n\n" : "") + `**${text}**`;
-    } else {
-      // Regular content
-      if (currentSubsection) {
-        currentSubsection.content += (currentSubsection.content ? "\n\n" : "") + text;
-      } else if (currentSection) {
-        currentSection.content += (currentSection.content ? "\n\n" : "") + text;
+  const parseNodes = (blocks: NotionBlockNode[], inChildPage: boolean) => {
+    for (const { node, markdown } of renderBlockSequence(flattenForParsing(blocks))) {
+      const block = node.block;
+      // A top-level page becomes its own section — only its title stays here
+      const text = (node.page ? blockToMarkdown({ ...node, children: [] }) : markdown).trim();
+      if (!text) continue;
+      if (node.page) pages.push(node);
+
+      // Within a child page the page itself is the section, so its top headings become subsections
+      const isSectionHeading = block.type === "heading_1" && !inChildPage;
+      const isSubsectionHeading = block.type === "heading_2" || (block.type === "heading_1" && inChildPage);
+
+      if (isSectionHeading) {
+        // New main section
+        startSection(richTextToPlain(block.heading_1.rich_text).trim(), block.id);
+      } else if (isSubsectionHeading && currentSection) {
+        // New subsection
+        subsectionIndex++;
+        const section: BrandSection = currentSection;
+        const heading = block.type === "heading_1" ? block.heading_1 : block.heading_2;
+        const title = richTextToPlain(heading.rich_text).trim();
+        currentSubsection = {
+          id: `${section.id}.${subsectionIndex}`,
+          parentId: section.id,
+          slug: uniqueSlug(title, slugs, `${section.slug}/`),
+          blockId: block.id,
+          title,
+          content: "",
+        };
+        section.subsections.push(currentSubsection);
+      } else if (block.type === "heading_3" && currentSubsection) {
+        // Append heading_3 as bold content within subsection
+        const subsection: BrandSubsection = currentSubsection;
+        const title = richTextToPlain(block.heading_3.rich_text).trim();
+        subsection.content += (subsection.content ? "\n\n" : "") + `**${title}**`;
+      } else {
+        // Regular content
+        const target: { content: string } | null = currentSubsection ?? currentSection;
+        if (target) {
+          target.content += (target.content ? blockSeparator(previousType, block.type) : "") + text;
+        }
       }
+      previousType = block.type;
     }
+  };
+
+  parseNodes(nodes, false);
+
+  let page: NotionBlockNode | undefined;
+  while ((page = pages.shift())) {
+    startSection(page.page!.title, page.page!.id);
+    previousType = null;
+    parseNodes(page.children, true);
   }
 
   return {
@@ -177,9 +201,11 @@ function parseBlocksIntoBrandBible(blocks: BlockObjectResponse[]): BrandBible {
 // Default / fallback
 // ---------------------------------------------------------------------------
 
+/** Placeholder sections, used only when Notion is unavailable and nothing was ever cached */
 function createDefaultBrandBible(): BrandBible {
   const sections: BrandSection[] = Object.entries(BRAND_SECTIONS).map(([id, title]) => ({
     id,
+    slug: slugify(title),
     title,
     content: `Content for ${title}. Please set NOTION_TOKEN environment variable to load from Notion.`,
     subsections: [],
@@ -196,43 +222,36 @@ function createDefaultBrandBible(): BrandBible {
 // Main fetch
 // ---------------------------------------------------------------------------
 
+/**
+ * The Brand Bible. Expired content is returned immediately while a background
+ * refresh runs; only a cold start with nothing on disk (or a forced refresh)
+ * waits for Notion.
+ */
 export async function fetchBrandBible(forceRefresh = false): Promise<BrandBible> {
-  if (!forceRefresh && isCacheValid() && cachedBrandBible) {
-    return cachedBrandBible;
-  }
+  return brandBibleCache.get(forceRefresh);
+}
 
+async function loadFromNotion(): Promise<BrandBible> {
   const notion = getNotionClient();
-
-  if (notion) {
-    try {
-      const blocks = await fetchAllBlocks(notion, BRAND_BIBLE_PAGE_ID);
-      const brandBible = parseBlocksIntoBrandBible(blocks);
-
-      // If parsing found sections, use it
-      if (brandBible.sections.length > 0) {
-        cachedBrandBible = brandBible;
-        lastFetchTime = new Date();
-        console.error(
-          `Brand Bible fetched from Notion API at ${lastFetchTime.toISOString()} — ` +
-            `${brandBible.sections.length} sections`
-        );
-        return brandBible;
-      }
-    } catch (error) {
-      console.error("Error fetching Brand Bible from Notion API:", error);
-      if (cachedBrandBible) {
-        console.error("Returning cached Brand Bible due to API error");
-        return cachedBrandBible;
-      }
-    }
+  if (!notion) throw new Error("NOTION_TOKEN not set");
+
+  const source = getConfig().sources.brandBible;
+  const blocks = await fetchBlockTree(notion, source.notionPageId, {
+    includePages: source.includeChildPages,
+  });
+  const brandBible = parseBlocksIntoBrandBible(blocks);
+  if (brandBible.sections.length === 0) throw new Error("No sections found on the Brand Bible page");
+
+  console.error(
+    `Brand Bible fetched from Notion API at ${brandBible.lastUpdated.toISOString()} — ` +
+      `${brandBible.sections.length} sections`
+  );
+  try {
+    await recordSnapshot(brandBible);
+  } catch (error) {
+    console.error("Error recording Brand Bible snapshot:", error);
   }
-
-  // Fallback
-  const fallback = createDefaultBrandBible();
-  cachedBrandBible = fallback;
-  lastFetchTime = new Date();
-  console.error("Using hardcoded fallback Brand Bible data");
-  return fallback;
+  return brandBible;
 }
 
 // ---------------------------------------------------------------------------
@@ -248,36 +267,105 @@ export async function getBrandOverview(): Promise<BrandOverview> {
     sectionCount: brandBible.sections.length,
     sections: brandBible.sections.map((section) => ({
       id: section.id,
+      slug: section.slug,
       title: section.title,
       subsectionCount: section.subsections.length,
     })),
   };
 }
 
-export async function getSection(sectionId: string): Promise<BrandSection | null> {
+/** How a section or subsection reference was resolved */
+export type SectionRefMatch = "id" | "slug" | "block" | "redirect" | "title";
+
+export interface ResolvedRef<T> {
+  item: T;
+  matchedBy: SectionRefMatch;
+  /**
+   * Set when the reference was renumbered or renamed: the section it used
+   * to denote and where that section lives now.
+   */
+  renumbered?: SectionRedirect & { currentId: string; currentSlug: string };
+}
+
+/** Notion block ID in a reference — bare, dashed, or inside a Notion URL */
+function extractBlockId(ref: string): string | null {
+  const match = ref.replace(/-/g, "").match(/[0-9a-f]{32}(?![0-9a-f])/i);
+  return match ? match[0].toLowerCase() : null;
+}
+
+function sameBlock(blockId: string | undefined, other: string | null): boolean {
+  return !!blockId && !!other && blockId.replace(/-/g, "").toLowerCase() === other.replace(/-/g, "").toLowerCase();
+}
+
+/**
+ * Resolve a reference against a list of candidates, trying in turn: the
+ * current positional number, the slug, the Notion block ID, the redirect
+ * table for renumbered IDs and renamed slugs, and finally a fuzzy title match.
+ * The current numbering wins, so the IDs handed out by the overview, search
+ * and review sources always lead to what they name; a redirect is only
+ * followed when nothing carries the reference now.
+ */
+export async function resolveRef<T extends { id: string; slug: string; blockId?: string; title: string }>(
+  candidates: T[],
+  ref: string
+): Promise<ResolvedRef<T> | null> {
+  const trimmed = ref.trim();
+  const isNumeric = /^\d+(\.\d+)*$/.test(trimmed);
+  const slug = trimmed.toLowerCase().replace(/^\/+|\/+$/g, "");
+
+  const redirect = await getRedirect(slug);
+  const original = redirect ? candidates.find((c) => sameBlock(c.blockId, redirect.blockId)) : undefined;
+  const renumbered = redirect && original ? { ...redirect, currentId: original.id, currentSlug: original.slug } : undefined;
+
+  const byId = candidates.find((c) => c.id === trimmed);
+  if (byId) return { item: byId, matchedBy: "id", renumbered: original !== byId ? renumbered : undefined };
+
+  const bySlug = candidates.find((c) => c.slug === slug);
+  if (bySlug) return { item: bySlug, matchedBy: "slug", renumbered: original !== bySlug ? renumbered : undefined };
+
+  const blockId = extractBlockId(trimmed);
+  const byBlock = blockId ? candidates.find((c) => sameBlock(c.blockId, blockId)) : undefined;
+  if (byBlock) return { item: byBlock, matchedBy: "block" };
+
+  if (original) return { item: original, matchedBy: "redirect", renumbered };
+  if (isNumeric || blockId || slug.includes("/")) return null;
+
+  const exact = candidates.find((c) => normalizeTerm(c.title) === normalizeTerm(trimmed));
+  if (exact) return { item: exact, matchedBy: "title" };
+  const [closest] = closestMatches(trimmed, candidates.map((c) => c.title), { threshold: 0.6, limit: 1 });
+  const byTitle = closest ? candidates.find((c) => c.title === closest.value) : undefined;
+  return byTitle ? { item: byTitle, matchedBy: "title" } : null;
+}
+
+/** Find a section by number, slug, Notion block ID or (fuzzy) title */
+export async function resolveSection(ref: string): Promise<ResolvedRef<BrandSection> | null> {
   const brandBible = await fetchBrandBible();
-  return brandBible.sections.find((s) => s.id === sectionId) || null;
+  return resolveRef(brandBible.sections, ref);
 }
 
-export async function getSubsection(subsectionId: string): Promise<BrandSubsection | null> {
+/** Find a subsection by number, slug, Notion block ID or (fuzzy) title */
+export async function resolveSubsection(ref: string): Promise<ResolvedRef<BrandSubsection> | null> {
   const brandBible = await fetchBrandBible();
+  return resolveRef(brandBible.sections.flatMap((s) => s.subsections), ref);
+}
 
-  for (const section of brandBible.sections) {
-    const subsection = section.subsections.find((s) => s.id === subsectionId);
-    if (subsection) return subsection;
-  }
+export async function getSection(sectionRef: string): Promise<BrandSection | null> {
+  return (await resolveSection(sectionRef))?.item ?? null;
+}
 
-  return null;
+export async function getSubsection(subsectionRef: string): Promise<BrandSubsection | null> {
+  return (await resolveSubsection(subsectionRef))?.item ?? null;
 }
 
-export async function listSubsections(): Promise<{ id: string; title: string; parentSection: string }[]> {
+export async function listSubsections(): Promise<{ id: string; slug: string; title: string; parentSection: string }[]> {
   const brandBible = await fetchBrandBible();
-  const results: { id: string; title: string; parentSection: string }[] = [];
+  const results: { id: string; slug: string; title: string; parentSection: string }[] = [];
 
   for (const section of brandBible.sections) {
     for (const subsection of section.subsections) {
       results.push({
         id: subsection.id,
+        slug: subsection.slug,
         title: subsection.title,
         parentSection: section.title,
       });
@@ -290,28 +378,36 @@ export async function listSubsections(): Promise<{ id: string; title: string; pa
 export async function searchBrandBible(query: string, maxResults = 5): Promise<SearchResult[]> {
   const brandBible = await fetchBrandBible();
   const results: SearchResult[] = [];
-  const queryWords = query.toLowerCase().split(/\s+/);
+  const { words: queryWords, extraWords } = expandQuery(brandBible, query);
+  const contextWords = [...queryWords, ...extraWords];
 
   for (const section of brandBible.sections) {
-    const sectionScore = calculateRelevanceScore(section.title + " " + section.content, queryWords);
+    const sectionScore = calculateRelevanceScore(section.title + " " + section.content, queryWords, extraWords);
     if (sectionScore > 0) {
       results.push({
         sectionId: section.id,
+        sectionSlug: section.slug,
         sectionTitle: section.title,
-        matchedContent: extractMatchContext(section.content, queryWords),
+        matchedContent: extractMatchContext(section.content, contextWords),
         relevanceScore: sectionScore,
       });
     }
 
     for (const subsection of section.subsections) {
-      const subsectionScore = calculateRelevanceScore(subsection.title + " " + subsection.content, queryWords);
+      const subsectionScore = calculateRelevanceScore(
+        subsection.title + " " + subsection.content,
+        queryWords,
+        extraWords
+      );
       if (subsectionScore > 0) {
         results.push({
           sectionId: section.id,
+          sectionSlug: section.slug,
           sectionTitle: section.title,
           subsectionId: subsection.id,
+          subsectionSlug: subsection.slug,
           subsectionTitle: subsection.title,
-          matchedContent: extractMatchContext(subsection.content, queryWords),
+          matchedContent: extractMatchContext(subsection.content, contextWords),
           relevanceScore: subsectionScore,
         });
       }
@@ -321,21 +417,63 @@ export async function searchBrandBible(query: string, maxResults = 5): Promise<S
   return results.sort((a, b) => b.relevanceScore - a.relevanceScore).slice(0, maxResults);
 }
 
-function calculateRelevanceScore(text: string, queryWords: string[]): number {
-  const textLower = text.toLowerCase();
+/** Spelling-corrected version of the query, or null if every word was found */
+export async function suggestBrandBibleQuery(query: string): Promise<string | null> {
+  const brandBible = await fetchBrandBible();
+  return expandQuery(brandBible, query).corrected;
+}
+
+/**
+ * Split a query into words, plus lower-weighted extra words: synonyms from the
+ * synonym table and spelling corrections for words that appear nowhere in the
+ * Brand Bible ("solvr" → "solver").
+ */
+function expandQuery(
+  brandBible: BrandBible,
+  query: string
+): { words: string[]; extraWords: string[]; corrected: string | null } {
+  const words = query.toLowerCase().split(/\s+/).filter((w) => flexiblePattern(w));
+  const fullText = brandBible.sections
+    .flatMap((s) => [s.title, s.content, ...s.subsections.flatMap((sub) => [sub.title, sub.content])])
+    .join("\n");
+
+  const vocabulary = new Set((fullText.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((w) => w.length >= 3));
+  let corrected = false;
+  const correctedWords = words.map((word) => {
+    if (word.length < 4 || new RegExp(flexiblePattern(word), "i").test(fullText)) return word;
+    const [closest] = closestMatches(word, vocabulary, { threshold: 0.7, limit: 1 });
+    if (!closest) return word;
+    corrected = true;
+    return closest.value;
+  });
+
+  return {
+    words,
+    extraWords: [...expandSynonyms(query), ...correctedWords.filter((w, i) => w !== words[i])],
+    corrected: corrected ? correctedWords.join(" ") : null,
+  };
+}
+
+/** Count literal (regex-safe) occurrences; extra words count at half weight */
+function calculateRelevanceScore(text: string, queryWords: string[], extraWords: string[] = []): number {
   let score = 0;
+  const phrase = new RegExp(queryWords.map(flexiblePattern).join("\\s+"), "i");
 
   for (const word of queryWords) {
-    const regex = new RegExp(word, "gi");
-    const matches = textLower.match(regex);
+    const matches = text.match(new RegExp(flexiblePattern(word), "gi"));
     if (matches) {
       score += matches.length;
-      if (textLower.includes(queryWords.join(" "))) {
+      if (phrase.test(text)) {
         score += 5;
       }
     }
   }
 
+  for (const word of extraWords) {
+    const matches = text.match(new RegExp(flexiblePattern(word), "gi"));
+    if (matches) score += matches.length * 0.5;
+  }
+
   return score;
 }
 
@@ -361,10 +499,11 @@ function extractMatchContext(content: string, queryWords: string[], contextLengt
 
 export async function refreshBrandBible(): Promise<{ success: boolean; message: string }> {
   try {
-    const bb = await fetchBrandBible(true);
+    const { value: bb, fresh, error } = await brandBibleCache.refresh();
+    if (!fresh) return { success: false, message: formatRefreshFailure(error, brandBibleCache.status()) };
     return {
       success: true,
-      message: `Brand Bible refreshed at ${lastFetchTime?.toISOString()} — ${bb.sections.length} sections`,
+      message: `Brand Bible refreshed at ${brandBibleCache.status().lastUpdated} — ${bb.sections.length} sections`,
     };
   } catch (error) {
     return {
@@ -374,17 +513,24 @@ export async function refreshBrandBible(): Promise<{ success: boolean; message:
   }
 }
 
-export function getCacheStatus(): { cached: boolean; lastUpdated: string | null; expiresIn: number | null } {
-  if (!lastFetchTime) {
-    return { cached: false, lastUpdated: null, expiresIn: null };
-  }
+export function getCacheStatus(): CacheStatus {
+  return brandBibleCache.status();
+}
 
-  const elapsed = Date.now() - lastFetchTime.getTime();
-  const expiresIn = Math.max(0, CACHE_DURATION_MS - elapsed);
+/** Refetch the Brand Bible after a change in Notion */
+export function invalidateBrandBible(): Promise<BrandBible> {
+  return brandBibleCache.invalidate();
+}
 
-  return {
-    cached: isCacheValid(),
-    lastUpdated: lastFetchTime.toISOString(),
-    expiresIn: Math.round(expiresIn / 1000),
-  };
+/**
+ * Whether a Notion page or block ID belongs to the Brand Bible: the page
+ * itself, or a child page or heading seen in the cached content.
+ */
+export function isBrandBibleBlock(id: string): boolean {
+  if (sameBlock(getConfig().sources.brandBible.notionPageId, id)) return true;
+  const brandBible = brandBibleCache.peek();
+  if (!brandBible) return false;
+  return brandBible.sections.some(
+    (section) => sameBlock(section.blockId, id) || section.subsections.some((sub) => sameBlock(sub.blockId, id))
+  );
 }
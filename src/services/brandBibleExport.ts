@@ -0,0 +1,273 @@
+/**
+ * Brand Bible Export
+ *
+ * Renders the parsed Brand Bible — or a single section of it — as a
+ * standalone HTML document in SODAX brand colors, with the logo embedded and
+ * a table of contents, for stakeholders and agencies who need a document
+ * rather than tool output. A print-ready PDF is produced from the same HTML
+ * by a locally installed Chrome or Chromium, headless and sandboxed, with a
+ * content security policy that lets it load only the inlined logo and styles —
+ * the Notion content never makes it fetch anything.
+ */
+
+import { execFile } from "child_process";
+import { existsSync } from "fs";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { delimiter, join } from "path";
+import { promisify } from "util";
+import { getConfig } from "../config.js";
+import { BRAND_COLORS } from "../constants.js";
+import type { BrandBible, BrandSection, BrandSubsection } from "../types.js";
+import { fetchBrandBible, resolveSection } from "./brandBible.js";
+import { readBrandAssetImage } from "./brandAssets.js";
+import { escapeHtml, markdownToHtml } from "./markdownHtml.js";
+
+const execFileAsync = promisify(execFile);
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface BrandBibleDocument {
+  title: string;
+  /** File name without extension, e.g. "sodax-brand-bible-visual-identity" */
+  fileName: string;
+  html: string;
+  /** Slug of the exported section, for single-section exports */
+  section?: string;
+  sectionCount: number;
+  lastUpdated: string;
+}
+
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExportError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+const STYLES = `
+  :root {
+    --cherry: ${BRAND_COLORS.cherry};
+    --cream: ${BRAND_COLORS.cream};
+    --espresso: ${BRAND_COLORS.espresso};
+    --accent: ${BRAND_COLORS.accent};
+  }
+  * { box-sizing: border-box; }
+  body {
+    margin: 0;
+    font-family: Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif;
+    font-size: 15px;
+    line-height: 1.6;
+    color: var(--espresso);
+    background: #fff;
+  }
+  main { max-width: 820px; margin: 0 auto; padding: 0 32px 64px; }
+  .cover { background: var(--cream); border-bottom: 6px solid var(--cherry); padding: 48px 32px; margin-bottom: 40px; }
+  .cover-inner { max-width: 820px; margin: 0 auto; padding: 0 32px; }
+  .cover img { height: 48px; }
+  .cover h1 { font-size: 40px; margin: 32px 0 8px; line-height: 1.15; }
+  .cover .meta { margin: 0; opacity: 0.75; }
+  nav.toc { background: var(--cream); border-left: 4px solid var(--accent); padding: 16px 24px; margin-bottom: 48px; }
+  nav.toc h2 { margin-top: 0; font-size: 18px; }
+  nav.toc ol { margin: 0; padding-left: 20px; }
+  nav.toc ol ol { list-style: none; padding-left: 12px; }
+  nav.toc a { color: var(--espresso); text-decoration: none; }
+  h1, h2, h3, h4, h5, h6 { color: var(--espresso); line-height: 1.25; }
+  section.brand-section > h2 { color: var(--cherry); font-size: 28px; border-bottom: 2px solid var(--cherry); padding-bottom: 6px; margin-top: 56px; }
+  section.brand-subsection > h3 { font-size: 21px; margin-top: 36px; }
+  .number { color: var(--cherry); margin-right: 8px; }
+  a { color: var(--cherry); }
+  blockquote { margin: 16px 0; padding: 8px 20px; background: var(--cream); border-left: 4px solid var(--accent); }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.9em; background: var(--cream); padding: 1px 4px; border-radius: 3px; }
+  pre { background: var(--espresso); color: var(--cream); padding: 16px; border-radius: 6px; overflow-x: auto; }
+  pre code { background: none; padding: 0; color: inherit; }
+  table { border-collapse: collapse; width: 100%; margin: 16px 0; }
+  th, td { border: 1px solid #ddd; padding: 6px 10px; text-align: left; vertical-align: top; }
+  th { background: var(--cream); }
+  figure { margin: 16px 0; }
+  figure img, p img { max-width: 100%; }
+  figcaption { font-size: 13px; opacity: 0.75; }
+  li.todo { list-style: none; margin-left: -20px; }
+  details > summary { font-weight: 600; }
+  footer { max-width: 820px; margin: 0 auto; padding: 24px 32px 48px; font-size: 12px; opacity: 0.6; }
+  @page { size: A4; margin: 18mm 16mm; }
+  @media print {
+    body { font-size: 11pt; }
+    .cover { margin: -18mm -16mm 32px; padding: 18mm 16mm 12mm; }
+    main, .cover-inner, footer { padding-left: 0; padding-right: 0; }
+    section.brand-section + section.brand-section { break-before: page; }
+    h2, h3, h4 { break-after: avoid; }
+    pre, table, figure, blockquote { break-inside: avoid; }
+    a { color: inherit; text-decoration: none; }
+  }
+`;
+
+/** Anchor for a section or subsection (subsection slugs contain "/") */
+const anchor = (slug: string) => slug.replace(/\//g, "--");
+
+function renderToc(sections: BrandSection[]): string {
+  const items = sections.map((section) => {
+    const subsections = section.subsections.length > 0
+      ? `<ol>${section.subsections.map((sub) => `<li><a href="#${anchor(sub.slug)}">${sub.id} ${escapeHtml(sub.title)}</a></li>`).join("")}</ol>`
+      : "";
+    return `<li><a href="#${anchor(section.slug)}">${escapeHtml(section.title)}</a>${subsections}</li>`;
+  });
+  return `<nav class="toc">\n<h2>Contents</h2>\n<ol>\n${items.join("\n")}\n</ol>\n</nav>`;
+}
+
+function renderSubsection(sub: BrandSubsection): string {
+  // Headings inside content start below the subsection's own <h3>
+  return `<section class="brand-subsection" id="${anchor(sub.slug)}">\n` +
+    `<h3><span class="number">${sub.id}</span>${escapeHtml(sub.title)}</h3>\n` +
+    `${markdownToHtml(sub.content, { headingOffset: 3 })}\n</section>`;
+}
+
+function renderSection(section: BrandSection): string {
+  return `<section class="brand-section" id="${anchor(section.slug)}">\n` +
+    `<h2><span class="number">${section.id}</span>${escapeHtml(section.title)}</h2>\n` +
+    `${markdownToHtml(section.content, { headingOffset: 2 })}\n` +
+    `${section.subsections.map(renderSubsection).join("\n")}\n</section>`;
+}
+
+async function logoDataUri(): Promise<string | null> {
+  const logo = await readBrandAssetImage("sodax-logo-on-white", "svg");
+  return logo ? `data:${logo.mimeType};base64,${logo.data}` : null;
+}
+
+function renderDocument(brandBible: BrandBible, sections: BrandSection[], title: string, logo: string | null): string {
+  const lastUpdated = brandBible.lastUpdated.toISOString();
+  const meta = sections.length === 1
+    ? `Section ${sections[0].id} of ${escapeHtml(brandBible.title)} · Updated ${lastUpdated.slice(0, 10)}`
+    : `${sections.length} sections · Updated ${lastUpdated.slice(0, 10)}`;
+  // A table of contents is only worth it with more than one heading to jump to
+  const showToc = sections.length > 1 || sections[0]?.subsections.length > 1;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header class="cover">
+<div class="cover-inner">
+${logo ? `<img src="${logo}" alt="SODAX">` : ""}
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${meta}</p>
+</div>
+</header>
+<main>
+${showToc ? renderToc(sections) : ""}
+${sections.map(renderSection).join("\n")}
+</main>
+<footer>Exported ${new Date().toISOString()} from the SODAX Brand Bible (content as of ${lastUpdated}).</footer>
+</body>
+</html>
+`;
+}
+
+/**
+ * Render the Brand Bible, or the one section matching `sectionRef` (number,
+ * slug, block ID or title), as a standalone HTML document. Returns null if
+ * the section doesn't exist.
+ */
+export async function renderBrandBibleHtml(sectionRef?: string): Promise<BrandBibleDocument | null> {
+  const brandBible = await fetchBrandBible();
+  let sections = brandBible.sections;
+  let title = brandBible.title;
+  let fileName = "sodax-brand-bible";
+  let slug: string | undefined;
+
+  if (sectionRef) {
+    const resolved = await resolveSection(sectionRef);
+    if (!resolved) return null;
+    sections = [resolved.item];
+    title = `${brandBible.title}: ${resolved.item.title}`;
+    slug = resolved.item.slug;
+    fileName += `-${slug}`;
+  }
+
+  return {
+    title,
+    fileName,
+    html: renderDocument(brandBible, sections, title, await logoDataUri()),
+    section: slug,
+    sectionCount: sections.length,
+    lastUpdated: brandBible.lastUpdated.toISOString(),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+const CHROME_COMMANDS = ["chromium", "chromium-browser", "google-chrome", "google-chrome-stable", "chrome"];
+const CHROME_APP_PATHS = [
+  "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
+  "/Applications/Chromium.app/Contents/MacOS/Chromium",
+  "C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe",
+];
+
+/** CHROME_PATH, else the first Chrome/Chromium on PATH or in a standard install location */
+export function findChrome(): string | null {
+  if (process.env.CHROME_PATH) return existsSync(process.env.CHROME_PATH) ? process.env.CHROME_PATH : null;
+  const dirs = (process.env.PATH ?? "").split(delimiter).filter(Boolean);
+  for (const command of CHROME_COMMANDS) {
+    for (const dir of dirs) {
+      const candidate = join(dir, command);
+      if (existsSync(candidate)) return candidate;
+    }
+  }
+  return CHROME_APP_PATHS.find((path) => existsSync(path)) ?? null;
+}
+
+/** Inlined assets only: remote images, fonts and local files referenced by the content stay unloaded */
+const PDF_CONTENT_SECURITY_POLICY = "default-src 'none'; img-src data:; font-src data:; style-src 'unsafe-inline'";
+
+/** Print an HTML document to PDF with headless Chrome */
+export async function renderPdf(html: string): Promise<Buffer> {
+  const chrome = findChrome();
+  if (!chrome) {
+    throw new ExportError(
+      "PDF export needs Chrome or Chromium installed locally — install it or set CHROME_PATH. The HTML export works without it."
+    );
+  }
+
+  const dir = await mkdtemp(join(tmpdir(), "sodax-export-"));
+  try {
+    const input = join(dir, "document.html");
+    const output = join(dir, "document.pdf");
+    const locked = html.replace(
+      "<head>",
+      `<head>\n<meta http-equiv="Content-Security-Policy" content="${PDF_CONTENT_SECURITY_POLICY}">`
+    );
+    await writeFile(input, locked, "utf-8");
+    await execFileAsync(chrome, [
+      "--headless",
+      "--disable-gpu",
+      ...(getConfig().export.chromeNoSandbox ? ["--no-sandbox"] : []),
+      // Any request the policy misses goes to a proxy that doesn't exist
+      "--proxy-server=127.0.0.1:9",
+      "--proxy-bypass-list=<-loopback>",
+      "--no-pdf-header-footer",
+      `--user-data-dir=${join(dir, "profile")}`,
+      `--print-to-pdf=${output}`,
+      `file://${input}`,
+    ], { timeout: 60_000 });
+    if (!existsSync(output)) throw new ExportError("Chrome exited without writing a PDF");
+    return await readFile(output);
+  } catch (error) {
+    if (error instanceof ExportError) throw error;
+    throw new ExportError(`PDF rendering failed: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
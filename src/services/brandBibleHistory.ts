@@ -0,0 +1,399 @@
+/**
+ * Brand Bible History Service
+ *
+ * Persists a snapshot of the Brand Bible on every successful Notion fetch,
+ * keyed by a hash of its content, so changes to the guidelines can be traced
+ * over time. Snapshots are only written when the content actually changed.
+ *
+ * Also maintains a redirect table from positional section numbers and slugs
+ * to the Notion block they denoted before a reorder or rename, so saved
+ * references can still be traced to their content.
+ *
+ * Layout under DATA_DIR:
+ *   brand-bible/index.json              — snapshot list, oldest first
+ *   brand-bible/snapshots/<hash>.json   — full section content per snapshot
+ *   brand-bible/redirects.json          — renumbered section/subsection IDs
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { DATA_DIR } from "../constants.js";
+import type { BrandBible, BrandSection } from "../types.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SnapshotInfo {
+  /** Short content hash identifying the snapshot */
+  id: string;
+  /** When this content was first fetched */
+  firstSeen: string;
+  /** When this content was most recently fetched */
+  lastSeen: string;
+  sectionCount: number;
+  subsectionCount: number;
+}
+
+interface Snapshot {
+  id: string;
+  hash: string;
+  fetchedAt: string;
+  title: string;
+  sections: BrandSection[];
+}
+
+export type ChangeType = "added" | "removed" | "modified";
+
+export interface BrandBibleChange {
+  type: ChangeType;
+  kind: "section" | "subsection";
+  /** ID in the newer snapshot (or the older one for removals) */
+  id: string;
+  title: string;
+  parentTitle?: string;
+  /** Title in the older snapshot, when the heading was renamed */
+  previousTitle?: string;
+  /** Line diff of the content (modified entries only) */
+  diff?: string;
+}
+
+/** A positional ID or slug that used to denote a different section or subsection */
+export interface SectionRedirect {
+  /** The old positional ID ("3.1") or slug */
+  id: string;
+  /** Notion block the ID denoted before it was renumbered */
+  blockId: string;
+  title: string;
+  /** When the renumbering was detected */
+  recordedAt: string;
+}
+
+export interface BrandBibleChanges {
+  from: SnapshotInfo;
+  to: SnapshotInfo;
+  changes: BrandBibleChange[];
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+const HISTORY_DIR = join(DATA_DIR, "brand-bible");
+const SNAPSHOT_DIR = join(HISTORY_DIR, "snapshots");
+const INDEX_FILE = join(HISTORY_DIR, "index.json");
+const REDIRECTS_FILE = join(HISTORY_DIR, "redirects.json");
+
+async function readIndex(): Promise<SnapshotInfo[]> {
+  try {
+    return JSON.parse(await readFile(INDEX_FILE, "utf-8")) as SnapshotInfo[];
+  } catch {
+    return [];
+  }
+}
+
+async function readSnapshot(id: string): Promise<Snapshot> {
+  return JSON.parse(await readFile(join(SNAPSHOT_DIR, `${id}.json`), "utf-8")) as Snapshot;
+}
+
+function hashBrandBible(brandBible: BrandBible): string {
+  const content = JSON.stringify({ title: brandBible.title, sections: brandBible.sections });
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Record a freshly fetched Brand Bible. Unchanged content only bumps the
+ * latest snapshot's `lastSeen` timestamp; content reverting to an earlier
+ * version gets a new index entry with that version's ID, keeping the timeline.
+ */
+export async function recordSnapshot(brandBible: BrandBible): Promise<SnapshotInfo> {
+  const hash = hashBrandBible(brandBible);
+  const id = hash.slice(0, 12);
+  const now = brandBible.lastUpdated.toISOString();
+  const index = await readIndex();
+  const latest = index[index.length - 1];
+
+  if (latest && latest.id === id) {
+    latest.lastSeen = now;
+  } else {
+    if (latest) await updateRedirects((await readSnapshot(latest.id)).sections, brandBible.sections, now);
+    const snapshot: Snapshot = {
+      id,
+      hash,
+      fetchedAt: now,
+      title: brandBible.title,
+      sections: brandBible.sections,
+    };
+    await mkdir(SNAPSHOT_DIR, { recursive: true });
+    await writeFile(join(SNAPSHOT_DIR, `${id}.json`), JSON.stringify(snapshot, null, 2));
+    index.push({
+      id,
+      firstSeen: now,
+      lastSeen: now,
+      sectionCount: brandBible.sections.length,
+      subsectionCount: brandBible.sections.reduce((n, s) => n + s.subsections.length, 0),
+    });
+    console.error(`Brand Bible content changed — stored snapshot ${id}`);
+  }
+
+  await mkdir(HISTORY_DIR, { recursive: true });
+  await writeFile(INDEX_FILE, JSON.stringify(index, null, 2));
+  return index[index.length - 1];
+}
+
+export async function listSnapshots(): Promise<SnapshotInfo[]> {
+  return readIndex();
+}
+
+// ---------------------------------------------------------------------------
+// Redirects
+// ---------------------------------------------------------------------------
+
+async function readRedirects(): Promise<Record<string, SectionRedirect>> {
+  try {
+    return JSON.parse(await readFile(REDIRECTS_FILE, "utf-8")) as Record<string, SectionRedirect>;
+  } catch {
+    return {};
+  }
+}
+
+type BlockPosition = { id: string; slug: string; title: string };
+
+/** Block ID → current references for every section and subsection that has one */
+function positionsByBlock(sections: BrandSection[]): Map<string, BlockPosition> {
+  const positions = new Map<string, BlockPosition>();
+  for (const entry of sections.flatMap((s) => [s, ...s.subsections])) {
+    if (entry.blockId) positions.set(entry.blockId, { id: entry.id, slug: entry.slug, title: entry.title });
+  }
+  return positions;
+}
+
+/**
+ * Record a redirect for every number or slug whose block moved or was
+ * renamed. References that denote their original block again lose their
+ * redirect.
+ */
+async function updateRedirects(before: BrandSection[], after: BrandSection[], now: string): Promise<void> {
+  const redirects = await readRedirects();
+  const oldPositions = positionsByBlock(before);
+  const newPositions = positionsByBlock(after);
+  let changed = false;
+
+  for (const [blockId, old] of oldPositions) {
+    const current = newPositions.get(blockId);
+    if (!current) continue;
+    for (const key of ["id", "slug"] as const) {
+      if (current[key] !== old[key]) {
+        redirects[old[key]] = { id: old[key], blockId, title: old.title, recordedAt: now };
+        changed = true;
+      }
+    }
+  }
+
+  for (const [blockId, current] of newPositions) {
+    for (const ref of [current.id, current.slug]) {
+      if (redirects[ref]?.blockId === blockId) {
+        delete redirects[ref];
+        changed = true;
+      }
+    }
+  }
+
+  if (changed) {
+    await mkdir(HISTORY_DIR, { recursive: true });
+    await writeFile(REDIRECTS_FILE, JSON.stringify(redirects, null, 2));
+  }
+}
+
+/** The block a renumbered ID or renamed slug used to denote, if any */
+export async function getRedirect(id: string): Promise<SectionRedirect | null> {
+  return (await readRedirects())[id] ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Diffing
+// ---------------------------------------------------------------------------
+
+/** Line diff based on the longest common subsequence, with limited context */
+function diffLines(before: string, after: string, context = 2): string {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // LCS lengths, computed from the end so the walk below can go forwards
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: { op: " " | "-" | "+"; line: string }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ op: " ", line: a[i] });
+      i++;
+      j++;
+    } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      ops.push({ op: "-", line: a[i] });
+      i++;
+    } else {
+      ops.push({ op: "+", line: b[j] });
+      j++;
+    }
+  }
+
+  // Keep changed lines plus a little surrounding context
+  const keep = ops.map(
+    (_, k) => ops.slice(Math.max(0, k - context), k + context + 1).some((o) => o.op !== " ")
+  );
+  const lines: string[] = [];
+  ops.forEach((o, k) => {
+    if (keep[k]) lines.push(`${o.op} ${o.line}`);
+    else if (keep[k - 1]) lines.push("  …");
+  });
+
+  return lines.join("\n");
+}
+
+/**
+ * Sections and subsections are matched by Notion block ID when both snapshots
+ * carry them, since positional IDs shift and titles get edited; older
+ * snapshots without block IDs fall back to matching by title.
+ */
+function compareSnapshots(from: Snapshot, to: Snapshot): BrandBibleChange[] {
+  const changes: BrandBibleChange[] = [];
+  const hasBlockIds = (snapshot: Snapshot) =>
+    snapshot.sections.every((s) => s.blockId && s.subsections.every((sub) => sub.blockId));
+  const byBlock = hasBlockIds(from) && hasBlockIds(to);
+  const matchKey = (entry: { title: string; blockId?: string }) =>
+    byBlock ? entry.blockId! : entry.title.trim().toLowerCase();
+
+  const oldSections = new Map(from.sections.map((s) => [matchKey(s), s]));
+  const newSectionKeys = new Set(to.sections.map((s) => matchKey(s)));
+
+  for (const section of to.sections) {
+    const previous = oldSections.get(matchKey(section));
+    if (!previous) {
+      changes.push({ type: "added", kind: "section", id: section.id, title: section.title });
+      continue;
+    }
+
+    if (previous.content !== section.content || previous.title !== section.title) {
+      changes.push({
+        type: "modified",
+        kind: "section",
+        id: section.id,
+        title: section.title,
+        previousTitle: previous.title !== section.title ? previous.title : undefined,
+        diff: previous.content !== section.content ? diffLines(previous.content, section.content) : undefined,
+      });
+    }
+
+    const oldSubsections = new Map(previous.subsections.map((s) => [matchKey(s), s]));
+    const newSubsectionKeys = new Set(section.subsections.map((s) => matchKey(s)));
+
+    for (const subsection of section.subsections) {
+      const before = oldSubsections.get(matchKey(subsection));
+      if (!before) {
+        changes.push({
+          type: "added",
+          kind: "subsection",
+          id: subsection.id,
+          title: subsection.title,
+          parentTitle: section.title,
+        });
+      } else if (before.content !== subsection.content || before.title !== subsection.title) {
+        changes.push({
+          type: "modified",
+          kind: "subsection",
+          id: subsection.id,
+          title: subsection.title,
+          parentTitle: section.title,
+          previousTitle: before.title !== subsection.title ? before.title : undefined,
+          diff: before.content !== subsection.content ? diffLines(before.content, subsection.content) : undefined,
+        });
+      }
+    }
+
+    for (const subsection of previous.subsections) {
+      if (!newSubsectionKeys.has(matchKey(subsection))) {
+        changes.push({
+          type: "removed",
+          kind: "subsection",
+          id: subsection.id,
+          title: subsection.title,
+          parentTitle: previous.title,
+        });
+      }
+    }
+  }
+
+  for (const section of from.sections) {
+    if (!newSectionKeys.has(matchKey(section))) {
+      changes.push({ type: "removed", kind: "section", id: section.id, title: section.title });
+    }
+  }
+
+  return changes;
+}
+
+/** A date or timestamp ("2025-01-31", "2025-01-31T12:00Z"), as opposed to an ID prefix */
+const DATE_REF = /^\d{4}(?:-\d{2}(?:-\d{2})?)?(?:[T ].*)?$/;
+
+/**
+ * Resolve a snapshot reference: a snapshot ID, a date — in which case the
+ * snapshot that was current at that moment is used — or a unique ID prefix.
+ * Content that returns to an earlier version appears in the index again under
+ * the same ID; an ID resolves to its latest appearance.
+ */
+function resolveSnapshotRef(index: SnapshotInfo[], ref: string): SnapshotInfo | null {
+  const id = ref.trim().toLowerCase();
+  const latestWithId = (snapshotId: string) => index.filter((s) => s.id === snapshotId).pop() ?? null;
+  const currentAt = (time: number) => {
+    let current: SnapshotInfo | null = null;
+    for (const snapshot of index) {
+      if (Date.parse(snapshot.firstSeen) <= time) current = snapshot;
+    }
+    // Before the first snapshot, compare against the oldest content we have
+    return current ?? index[0] ?? null;
+  };
+
+  const exact = latestWithId(id);
+  if (exact) return exact;
+
+  // "2025" is a year, not the start of an ID
+  const time = Date.parse(ref);
+  if (DATE_REF.test(id) && !isNaN(time)) return currentAt(time);
+
+  const byPrefix = new Set(index.filter((s) => s.id.startsWith(id)).map((s) => s.id));
+  if (byPrefix.size === 1) return latestWithId([...byPrefix][0]);
+
+  return isNaN(time) ? null : currentAt(time);
+}
+
+/**
+ * List what changed between two snapshots. `since` defaults to the snapshot
+ * before the latest one; `until` defaults to the latest snapshot.
+ */
+export async function getBrandBibleChanges(since?: string, until?: string): Promise<BrandBibleChanges> {
+  const index = await readIndex();
+  if (index.length === 0) {
+    throw new Error("No Brand Bible snapshots recorded yet. Snapshots are stored on each successful Notion fetch.");
+  }
+
+  const to = until ? resolveSnapshotRef(index, until) : index[index.length - 1];
+  if (!to) throw new Error(`Unknown snapshot or date "${until}"`);
+
+  const from = since ? resolveSnapshotRef(index, since) : index[Math.max(0, index.indexOf(to) - 1)];
+  if (!from) throw new Error(`Unknown snapshot or date "${since}"`);
+
+  if (from.id === to.id) {
+    return { from, to, changes: [] };
+  }
+
+  const [fromSnapshot, toSnapshot] = await Promise.all([readSnapshot(from.id), readSnapshot(to.id)]);
+  return { from, to, changes: compareSnapshots(fromSnapshot, toSnapshot) };
+}
@@ -0,0 +1,288 @@
+/**
+ * Brand Rules Service
+ *
+ * Extracts the Do / Don't rules written throughout the Brand Bible into
+ * structured rule objects, so reviewers and automated checks can enumerate
+ * every rule instead of rereading whole sections. Rules are recognised in:
+ *   - lists under a "Do" / "Don't" heading or toggle (or "✅" / "❌" headings)
+ *   - list items and to-dos starting with a verdict ("Don't…", "❌ …", "Always…")
+ *   - callouts whose icon or first words give a verdict
+ *   - standalone "Always…" / "Never…" / "Avoid…" statements, and preferences
+ *     such as `Use "networks" instead of "chains"` or `Say "networks", not "chains"`
+ *
+ * Nested list items under a rule, and "e.g." / "Example:" tails, become the
+ * rule's examples.
+ */
+
+import type { BrandBible } from "../types.js";
+import { fetchBrandBible, resolveSection, resolveSubsection } from "./brandBible.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RuleKind = "do" | "dont";
+
+/** How the rule is written in Notion */
+export type RuleFormat = "list" | "todo" | "callout" | "statement";
+
+export interface BrandRule {
+  /** Position-based ID, e.g. "3.2/4" — the fourth rule in subsection 3.2 */
+  id: string;
+  kind: RuleKind;
+  text: string;
+  examples: string[];
+  format: RuleFormat;
+  source: {
+    /** Section or subsection ID the rule is written in ("3" or "3.2") */
+    id: string;
+    slug: string;
+    title: string;
+    sectionId: string;
+    sectionTitle: string;
+  };
+}
+
+export interface BrandRuleFilter {
+  /** Section or subsection number, slug or title */
+  section?: string;
+  kind?: RuleKind;
+}
+
+export interface BrandRuleList {
+  rules: BrandRule[];
+  /** The section or subsection the list was narrowed to */
+  scope: { id: string; slug: string; title: string } | null;
+  counts: { do: number; dont: number };
+}
+
+// ---------------------------------------------------------------------------
+// Verdicts
+// ---------------------------------------------------------------------------
+
+const DONT_ICON = /^(?:❌|✖️?|✗|🚫|⛔|👎|🙅)\s*/u;
+const DO_ICON = /^(?:✅|✔️?|✓|☑️?|👍|🙆)\s*/u;
+const DONT_WORDS = /^(?:don['’]?t(?:s)?|do not|never|avoid|incorrect|wrong|not recommended|prohibited)\b/i;
+const DO_WORDS = /^(?:do(?:'?s)?|always|use|prefer|recommended|correct|right)\b/i;
+
+/** Verdict a heading declares, e.g. "Don'ts", "❌ Avoid", "✅ Do" — null for "Do's and Don'ts" */
+function headingVerdict(heading: string): RuleKind | null {
+  const text = heading.replace(/[:：]\s*$/, "").trim();
+  if (/\bdo(?:'?s)?\b.*\bdon['’]?ts?\b/i.test(text)) return null;
+  if (DONT_ICON.test(text) || DONT_WORDS.test(text)) return "dont";
+  if (DO_ICON.test(text) || DO_WORDS.test(text)) return "do";
+  return null;
+}
+
+/** A preference stated without a verdict word: `Use "networks" instead of "chains"`, `Say "Y", not "X"` */
+const PREFERENCE = /^(?:use|prefer|say|write|call)\b.*(?:\binstead of\b|\brather than\b|["”]\s*,?\s*not\s+["“])/i;
+
+/** Heading lines short enough to be labels rather than rules ("Do", "❌ Don't:") */
+const VERDICT_LABEL = /^(?:(?:❌|✖️?|✗|🚫|⛔|👎|✅|✔️?|✓|☑️?|👍)\s*)?(?:do(?:'?s)?|don['’]?ts?|do not|avoid|never|always|correct|incorrect|right|wrong)\s*[:：]?$/iu;
+
+/** Verdict stated at the start of a rule, and the rule text without its marker */
+function itemVerdict(text: string): { kind: RuleKind; text: string } | null {
+  const label = text.match(/^(?:\*\*)?(do|don['’]?t|do not)(?:\*\*)?\s*[:：—–-]\s*(?:\*\*)?\s*(.+)$/i);
+  if (label) return { kind: /^do$/i.test(label[1]) ? "do" : "dont", text: label[2] };
+  if (DONT_ICON.test(text)) return { kind: "dont", text: text.replace(DONT_ICON, "") };
+  if (DO_ICON.test(text)) return { kind: "do", text: text.replace(DO_ICON, "") };
+  if (DONT_WORDS.test(text)) return { kind: "dont", text };
+  if (/^always\b/i.test(text) || PREFERENCE.test(text)) return { kind: "do", text };
+  return null;
+}
+
+/** Split "Use X, e.g. "Y"" / "Use X. Example: Y" into the rule and its example */
+function splitExamples(text: string): { text: string; examples: string[] } {
+  const match = text.match(/^(.+?)[\s(,;—–-]*\b(?:e\.g\.|for example|examples?:)\s*(.+?)\)?$/i);
+  if (!match) return { text, examples: [] };
+  return { text: match[1].replace(/[\s(,;:—–-]+$/, ""), examples: [match[2].trim()] };
+}
+
+/** Drop a callout's informational icon (💡, ℹ️), keeping verdict icons */
+function withoutInfoIcon(text: string): string {
+  return DO_ICON.test(text) || DONT_ICON.test(text) ? text : text.replace(/^\p{Extended_Pictographic}\uFE0F?\s*/u, "");
+}
+
+function plainText(markdown: string): string {
+  return markdown
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/(^|[^\w])_(.+?)_(?!\w)/g, "$1$2")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// ---------------------------------------------------------------------------
+// Extraction
+// ---------------------------------------------------------------------------
+
+type ExtractedRule = Omit<BrandRule, "id" | "source">;
+
+const LIST_ITEM = /^(\s*)(?:[-*]|\d+\.)\s+(?:\[([ x])\]\s+)?(.+)$/;
+const BOLD_HEADING = /^\*\*([^*]+)\*\*:?$/;
+const MARKDOWN_HEADING = /^#{1,6}\s+(.+)$/;
+const TOGGLE = /^(\s*)▸\s+(.+)$/;
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].length;
+
+/** Rules in a block of Markdown, under the verdict of the heading they follow */
+function extractRules(content: string, format: "list" | "callout" = "list", initial: RuleKind | null = null): ExtractedRule[] {
+  const rules: ExtractedRule[] = [];
+  const lines = content.split("\n");
+  let verdict = initial;
+  // A paragraph after the list under a Do/Don't heading ends that list
+  let inList = false;
+
+  const add = (raw: string, kind: RuleKind, ruleFormat: RuleFormat, nested: string[] = []) => {
+    const { text, examples } = splitExamples(plainText(raw));
+    if (!text || VERDICT_LABEL.test(text)) return;
+    rules.push({ kind, text, examples: [...examples, ...nested.map(plainText).filter(Boolean)], format: ruleFormat });
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (!trimmed) continue;
+
+    const heading = trimmed.match(MARKDOWN_HEADING)?.[1] ?? trimmed.match(BOLD_HEADING)?.[1];
+    if (heading) {
+      verdict = headingVerdict(heading);
+      inList = false;
+      continue;
+    }
+
+    // Toggles: a verdict label ("▸ Don't") scopes the items nested inside it;
+    // a toggle stating a rule keeps them as its examples
+    const toggle = lines[i].match(TOGGLE);
+    if (toggle) {
+      const width = toggle[1].length;
+      let end = i + 1;
+      for (let j = i + 1; j < lines.length && (!lines[j].trim() || indentOf(lines[j]) > width); j++) {
+        if (lines[j].trim()) end = j + 1;
+      }
+      const children = lines.slice(i + 1, end).map((line) => line.slice(Math.min(width + 2, indentOf(line))));
+      const label = withoutInfoIcon(plainText(toggle[2]));
+      const stated = VERDICT_LABEL.test(label) ? null : itemVerdict(label);
+      if (stated) {
+        add(stated.text, stated.kind, format, children.filter((line) => line.trim()).map((line) => line.replace(LIST_ITEM, "$3")));
+      } else {
+        rules.push(...extractRules(children.join("\n"), format, headingVerdict(label)));
+      }
+      i = end - 1;
+      inList = false;
+      continue;
+    }
+
+    // Callouts (and quotes): a verdict icon or label, then either one rule or a list of them
+    if (trimmed.startsWith(">")) {
+      // Notion leaves blank lines inside a callout unprefixed; one starting with an icon is the next callout
+      const quoted: string[] = [];
+      const continues = (j: number) =>
+        !lines[j].trim() && /^>\s*(?![\s\p{Extended_Pictographic}])/u.test(lines[j + 1]?.trim() ?? "");
+      while (i < lines.length && (lines[i].trim().startsWith(">") || continues(i))) {
+        quoted.push(lines[i].trim().replace(/^>\s?/, ""));
+        i++;
+      }
+      i--;
+      const [first = "", ...rest] = quoted.filter((line) => line.trim());
+      const head = withoutInfoIcon(plainText(first));
+      const stated = itemVerdict(head);
+      if (VERDICT_LABEL.test(head)) {
+        rules.push(...extractRules(rest.join("\n"), "callout", headingVerdict(head)));
+      } else if (stated) {
+        add(stated.text, stated.kind, "callout", rest.map((line) => line.replace(LIST_ITEM, "$3")));
+      } else {
+        rules.push(...extractRules(quoted.join("\n"), "callout", verdict));
+      }
+      continue;
+    }
+
+    const item = lines[i].match(LIST_ITEM);
+    if (item) {
+      // Nested items belong to this one, as its examples
+      const nested: string[] = [];
+      while (i + 1 < lines.length && (indentOf(lines[i + 1]) > item[1].length || (!lines[i + 1].trim() && indentOf(lines[i + 2] ?? "") > item[1].length))) {
+        const child = lines[++i].match(LIST_ITEM);
+        if (child) nested.push(child[3]);
+        else if (lines[i].trim()) nested.push(lines[i].trim());
+      }
+      const text = plainText(item[3]);
+      const stated = itemVerdict(text);
+      const kind = stated?.kind ?? verdict ?? (item[2] !== undefined ? "do" : null);
+      const ruleFormat: RuleFormat = item[2] !== undefined ? "todo" : format;
+      if (kind) add(stated?.text ?? text, kind, ruleFormat, nested);
+      inList = true;
+      continue;
+    }
+
+    if (inList) {
+      verdict = initial;
+      inList = false;
+    }
+
+    // Standalone "Always…" / "Never…" statements and preferences
+    const stated = trimmed.startsWith("|") ? null : itemVerdict(plainText(trimmed));
+    if (stated && (/^(?:always|never|avoid|do not|don['’]t)\b/i.test(stated.text) || PREFERENCE.test(stated.text))) {
+      add(stated.text, stated.kind, format === "callout" ? "callout" : "statement");
+    }
+  }
+
+  return rules;
+}
+
+/** Every rule in the Brand Bible, in document order */
+export function extractBrandRules(brandBible: BrandBible): BrandRule[] {
+  const rules: BrandRule[] = [];
+
+  for (const section of brandBible.sections) {
+    const blocks = [
+      { id: section.id, slug: section.slug, title: section.title, content: section.content },
+      ...section.subsections.map((sub) => ({ id: sub.id, slug: sub.slug, title: sub.title, content: sub.content })),
+    ];
+    for (const block of blocks) {
+      const source = { id: block.id, slug: block.slug, title: block.title, sectionId: section.id, sectionTitle: section.title };
+      extractRules(block.content).forEach((rule, index) => {
+        rules.push({ id: `${block.id}/${index + 1}`, ...rule, source });
+      });
+    }
+  }
+
+  return rules;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Brand rules, optionally narrowed to a section or subsection (number, slug
+ * or title) and to do's or don'ts. Returns null if the section doesn't exist.
+ */
+export async function listBrandRules(filter: BrandRuleFilter = {}): Promise<BrandRuleList | null> {
+  const brandBible = await fetchBrandBible();
+  let rules = extractBrandRules(brandBible);
+  let scope: BrandRuleList["scope"] = null;
+
+  if (filter.section) {
+    const ref = filter.section.trim();
+    const resolved = /^\d+\.\d+$/.test(ref) || ref.includes("/")
+      ? (await resolveSubsection(ref)) ?? (await resolveSection(ref))
+      : (await resolveSection(ref)) ?? (await resolveSubsection(ref));
+    if (!resolved) return null;
+
+    const { id, slug, title } = resolved.item;
+    scope = { id, slug, title };
+    // A section includes the rules in its subsections
+    rules = rules.filter((r) => r.source.id === id || r.source.sectionId === id);
+  }
+
+  if (filter.kind) rules = rules.filter((r) => r.kind === filter.kind);
+
+  return {
+    rules,
+    scope,
+    counts: {
+      do: rules.filter((r) => r.kind === "do").length,
+      dont: rules.filter((r) => r.kind === "dont").length,
+    },
+  };
+}
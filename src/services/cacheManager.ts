@@ -0,0 +1,306 @@
+/**
+ * Cache Manager
+ *
+ * The cache shared by the Brand Bible, glossary and stats services:
+ * - single-flight: concurrent callers share one in-flight fetch
+ * - stale-while-revalidate: expired content is served while a refresh runs
+ * - proactive refresh: a jittered timer refreshes shortly before expiry, so
+ *   callers rarely see stale content and sources don't refresh in lockstep
+ * - persistence: the last good payload is saved to disk and loaded at startup
+ * - snapshots: with SNAPSHOT_PATH set, content comes from a snapshot bundle
+ *   and is never refreshed
+ *
+ * Every source registers itself, so sodax_cache_status can report all of them.
+ */
+
+import { loadPersisted, persist } from "./persistentCache.js";
+import { getSnapshotPayload, SnapshotError } from "./snapshot.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Where a source's cached content came from */
+export type CacheOrigin = "live" | "disk" | "fallback" | "snapshot";
+
+export interface CacheStatus {
+  name: string;
+  label: string;
+  /** Content is cached and within its TTL */
+  cached: boolean;
+  /** Expired (or fallback) content is still served while a refresh runs (never true for snapshots) */
+  stale: boolean;
+  origin: CacheOrigin | null;
+  lastUpdated: string | null;
+  /** Seconds since the content was fetched */
+  ageSeconds: number | null;
+  /** Seconds until the cache expires (0 when stale) */
+  expiresIn: number | null;
+  ttlSeconds: number;
+  refreshing: boolean;
+  /** Next scheduled refresh; otherwise the earliest time a request triggers one (expiry or retry) */
+  nextRefresh: string | null;
+  lastError: { message: string; at: string } | null;
+}
+
+export interface CachedSourceOptions<T> {
+  /** Key in status reports and file name under DATA_DIR/cache */
+  name: string;
+  /** Human-readable name for logs */
+  label: string;
+  /** Read on every check rather than at creation, since config loads after modules are imported */
+  ttlSeconds: () => number;
+  /** Fetch current content; throws when the source is unavailable */
+  load: (previous: T | null) => Promise<T>;
+  /** Placeholder content when the source is unavailable and nothing was ever cached */
+  fallback?: () => T;
+  /** Restore a persisted payload (dates etc.), or null if it is unusable */
+  revive: (data: unknown) => T | null;
+  /** Called whenever the cached value is replaced */
+  onUpdate?: (previous: T | null, current: T) => void;
+}
+
+export interface RefreshResult<T> {
+  value: T;
+  /** False when the load failed (or a snapshot pins the content) and cached or fallback content was served instead */
+  fresh: boolean;
+  /** Why the content isn't fresh */
+  error: string | null;
+}
+
+export interface CachedSource<T> {
+  /** Cached content, refreshed in the background when stale; waits only on a cold start or when forced */
+  get(forceRefresh?: boolean): Promise<T>;
+  /** Fetch now, joining a refresh already in flight; reports whether fresh content was loaded */
+  refresh(): Promise<RefreshResult<T>>;
+  /** The source changed: refetch after any fetch already in flight, since that one may predate the change */
+  invalidate(): Promise<T>;
+  /** Cached content without triggering a load or refresh */
+  peek(): T | null;
+  status(): CacheStatus;
+}
+
+// ---------------------------------------------------------------------------
+// Scheduling
+// ---------------------------------------------------------------------------
+
+/** Fraction of the TTL after which a proactive refresh runs */
+const REFRESH_AHEAD_FRACTION = 0.85;
+
+/** ± jitter applied to scheduled refreshes, as a fraction of the delay */
+const JITTER_FRACTION = 0.1;
+
+/** After a failed fetch, stale reads wait this long before trying again */
+const RETRY_DELAY_MS = 30 * 1000;
+
+function jittered(delayMs: number): number {
+  return Math.max(0, Math.round(delayMs * (1 + (Math.random() * 2 - 1) * JITTER_FRACTION)));
+}
+
+// ---------------------------------------------------------------------------
+// Cached source
+// ---------------------------------------------------------------------------
+
+const registry = new Map<string, CachedSource<unknown>>();
+
+export function createCachedSource<T>(options: CachedSourceOptions<T>): CachedSource<T> {
+  let value: T | null = null;
+  let fetchedAt: Date | null = null;
+  let origin: CacheOrigin | null = null;
+  let lastError: { message: string; at: Date } | null = null;
+  let retryAfter = 0;
+  let inFlight: Promise<RefreshResult<T>> | null = null;
+  let diskLoad: Promise<void> | null = null;
+  let timer: NodeJS.Timeout | null = null;
+  let nextRefreshAt: Date | null = null;
+
+  const ttlMs = () => options.ttlSeconds() * 1000;
+  const ageMs = () => (fetchedAt ? Date.now() - fetchedAt.getTime() : Infinity);
+  // Placeholder content is never fresh — the real content is due as soon as the source is back
+  const expired = () => origin === "fallback" || ageMs() >= ttlMs();
+
+  function set(data: T, from: CacheOrigin, at = new Date()): void {
+    const previous = value;
+    value = data;
+    fetchedAt = at;
+    origin = from;
+    options.onUpdate?.(previous, data);
+  }
+
+  /**
+   * Refresh proactively before the content expires, or after `delayMs` (not
+   * with a TTL of 0, which means "always revalidate")
+   */
+  function scheduleRefresh(delayMs = ttlMs() * REFRESH_AHEAD_FRACTION - ageMs()): void {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    nextRefreshAt = null;
+    if (ttlMs() <= 0) return;
+
+    const delay = jittered(delayMs);
+    nextRefreshAt = new Date(Date.now() + delay);
+    timer = setTimeout(() => {
+      timer = null;
+      nextRefreshAt = null;
+      refresh().catch(() => {});
+    }, delay);
+    // Never keep a CLI or test process alive just to refresh a cache
+    timer.unref();
+  }
+
+  /** Content pinned by a snapshot bundle, or null when running against live sources */
+  function loadFromSnapshot(): T | null {
+    if (origin === "snapshot") return value;
+    const snapshot = getSnapshotPayload(options.name);
+    if (!snapshot) return null;
+
+    const data = options.revive(snapshot.data);
+    if (!data) throw new SnapshotError(`Snapshot ${snapshot.version} has no usable ${options.label} content`);
+    set(data, "snapshot", snapshot.createdAt);
+    console.error(`${options.label} served from snapshot ${snapshot.version}`);
+    return data;
+  }
+
+  function loadFromDisk(): Promise<void> {
+    diskLoad ??= loadPersisted(options.name, options.revive).then((persisted) => {
+      if (persisted && value === null) {
+        set(persisted.data, "disk", persisted.savedAt);
+        console.error(`${options.label} loaded from disk cache (saved ${persisted.savedAt.toISOString()})`);
+        scheduleRefresh();
+      }
+    });
+    return diskLoad;
+  }
+
+  async function fetchFresh(): Promise<RefreshResult<T>> {
+    try {
+      const data = await options.load(value);
+      set(data, "live");
+      lastError = null;
+      retryAfter = 0;
+      scheduleRefresh();
+      try {
+        await persist(options.name, data);
+      } catch (error) {
+        console.error(`Error persisting ${options.label} cache:`, error);
+      }
+      return { value: data, fresh: true, error: null };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      lastError = { message, at: new Date() };
+      retryAfter = Date.now() + RETRY_DELAY_MS;
+
+      // Last known content beats placeholder text
+      if (value !== null && origin !== "fallback") {
+        console.error(`${options.label} unavailable (${message}) — serving ${origin === "disk" ? "disk-cached" : "cached"} copy`);
+        return { value, fresh: false, error: message };
+      }
+      if (options.fallback) {
+        console.error(`${options.label} unavailable (${message}) — using built-in fallback`);
+        const fallback = options.fallback();
+        set(fallback, "fallback");
+        scheduleRefresh(RETRY_DELAY_MS);
+        return { value: fallback, fresh: false, error: message };
+      }
+      throw error;
+    }
+  }
+
+  function refresh(): Promise<RefreshResult<T>> {
+    const pinned = loadFromSnapshot();
+    if (pinned) return Promise.resolve({ value: pinned, fresh: false, error: "content is pinned by a snapshot bundle (SNAPSHOT_PATH)" });
+    inFlight ??= loadFromDisk().then(fetchFresh).finally(() => {
+      inFlight = null;
+    });
+    return inFlight;
+  }
+
+  async function invalidate(): Promise<T> {
+    if (inFlight) await inFlight.catch(() => {});
+    retryAfter = 0;
+    return (await refresh()).value;
+  }
+
+  async function get(forceRefresh = false): Promise<T> {
+    const pinned = loadFromSnapshot();
+    if (pinned) return pinned;
+
+    await loadFromDisk();
+    if (forceRefresh || value === null) return (await refresh()).value;
+
+    if (expired() && Date.now() >= retryAfter) {
+      refresh().catch((error) => console.error(`Background ${options.label} refresh failed:`, error));
+    }
+    return value;
+  }
+
+  function status(): CacheStatus {
+    const ttlSeconds = options.ttlSeconds();
+    const age = fetchedAt ? ageMs() : null;
+    const pinned = origin === "snapshot";
+    const stale = !pinned && age !== null && expired();
+    const expiresAt = fetchedAt && !stale && !pinned ? new Date(fetchedAt.getTime() + ttlSeconds * 1000) : null;
+    const retryAt = stale && retryAfter > Date.now() ? new Date(retryAfter) : null;
+
+    return {
+      name: options.name,
+      label: options.label,
+      cached: value !== null && !stale,
+      stale,
+      origin,
+      lastUpdated: fetchedAt?.toISOString() ?? null,
+      ageSeconds: age === null ? null : Math.round(age / 1000),
+      expiresIn: age === null || pinned ? null : stale ? 0 : Math.round(Math.max(0, ttlSeconds * 1000 - age) / 1000),
+      ttlSeconds,
+      refreshing: inFlight !== null,
+      nextRefresh: (nextRefreshAt ?? retryAt ?? expiresAt)?.toISOString() ?? null,
+      lastError: lastError && { message: lastError.message, at: lastError.at.toISOString() },
+    };
+  }
+
+  const source: CachedSource<T> = { get, refresh, invalidate, peek: () => value, status };
+  registry.set(options.name, source as CachedSource<unknown>);
+  return source;
+}
+
+/** Status of every cached source, in registration order */
+export function getAllCacheStatuses(): CacheStatus[] {
+  return [...registry.values()].map((source) => source.status());
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+export function formatAge(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} min`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)} h`;
+  return `${Math.floor(seconds / 86400)} d`;
+}
+
+/** One-line age marker for tool responses, e.g. "*Data as of … (2 h old, from disk cache — refreshing)*" */
+export function formatCacheAge(status: CacheStatus): string {
+  if (!status.lastUpdated || status.ageSeconds === null) return "*Data not loaded yet*";
+
+  const notes = [`${formatAge(status.ageSeconds)} old`];
+  if (status.origin === "disk") notes.push("from disk cache");
+  if (status.origin === "fallback") notes.push("built-in fallback");
+  if (status.origin === "snapshot") notes.push("pinned snapshot, not refreshed");
+  let marker = `Data as of ${status.lastUpdated} (${notes.join(", ")}`;
+  if (status.stale) marker += " — refreshing in background";
+  else if (status.expiresIn !== null) marker += `, expires in ${status.expiresIn}s`;
+  marker += ")";
+  return `*${marker}*`;
+}
+
+/** Result message for a forced refresh that couldn't load fresh content */
+export function formatRefreshFailure(error: string | null, status: CacheStatus): string {
+  const served =
+    status.origin === "fallback"
+      ? "built-in fallback data"
+      : status.origin === "snapshot"
+        ? `the snapshot from ${status.lastUpdated}`
+        : `the copy fetched at ${status.lastUpdated}`;
+  return `Failed to refresh: ${error ?? "unknown error"} — still serving ${served}`;
+}
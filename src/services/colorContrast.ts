@@ -0,0 +1,172 @@
+/**
+ * Color Contrast Service
+ *
+ * WCAG 2.x contrast checks and brand palette compliance for design colors.
+ * Contrast follows the WCAG relative luminance formula; palette distance is
+ * CIEDE2000 in CIELAB space, so "nearest brand color" matches perception
+ * rather than raw RGB distance.
+ */
+
+import { BRAND_COLORS } from "../constants.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface PaletteMatch {
+  /** Normalized input color (#RRGGBB) */
+  hex: string;
+  onPalette: boolean;
+  nearest: { name: string; hex: string; deltaE: number };
+}
+
+export interface ContrastCheck {
+  foreground: PaletteMatch;
+  background: PaletteMatch;
+  ratio: number;
+  aa: { normalText: boolean; largeText: boolean; uiComponents: boolean };
+  aaa: { normalText: boolean; largeText: boolean };
+  /** On-palette foreground that passes AA on this background, when this pair fails */
+  suggestion?: { name: string; hex: string; ratio: number };
+}
+
+// ---------------------------------------------------------------------------
+// Color math
+// ---------------------------------------------------------------------------
+
+/** Differences below this CIEDE2000 value are barely noticeable */
+const ON_PALETTE_DELTA_E = 2.3;
+
+type Rgb = [number, number, number];
+
+/** Parse "#RGB", "#RRGGBB" (with or without "#") into a normalized hex string */
+export function normalizeHex(value: string): string | null {
+  const match = value.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  const digits = match[1].length === 3 ? [...match[1]].map((d) => d + d).join("") : match[1];
+  return `#${digits.toUpperCase()}`;
+}
+
+function hexToRgb(hex: string): Rgb {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/** sRGB channel (0–255) to linear light */
+function linearize(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function relativeLuminance([r, g, b]: Rgb): number {
+  return 0.2126 * linearize(r) + 0.7152 * linearize(g) + 0.0722 * linearize(b);
+}
+
+/** WCAG contrast ratio (1–21) */
+export function contrastRatio(a: string, b: string): number {
+  const la = relativeLuminance(hexToRgb(a));
+  const lb = relativeLuminance(hexToRgb(b));
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+}
+
+/** sRGB to CIELAB (D65) */
+function rgbToLab(rgb: Rgb): [number, number, number] {
+  const [r, g, b] = rgb.map(linearize);
+  const x = (0.4124 * r + 0.3576 * g + 0.1805 * b) / 0.95047;
+  const y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  const z = (0.0193 * r + 0.1192 * g + 0.9505 * b) / 1.08883;
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+}
+
+/** CIEDE2000 color difference */
+export function deltaE2000(hexA: string, hexB: string): number {
+  const [l1, a1, b1] = rgbToLab(hexToRgb(hexA));
+  const [l2, a2, b2] = rgbToLab(hexToRgb(hexB));
+  const rad = Math.PI / 180;
+
+  const c1 = Math.hypot(a1, b1);
+  const c2 = Math.hypot(a2, b2);
+  const cMean7 = Math.pow((c1 + c2) / 2, 7);
+  const g = 0.5 * (1 - Math.sqrt(cMean7 / (cMean7 + Math.pow(25, 7))));
+  const a1p = a1 * (1 + g);
+  const a2p = a2 * (1 + g);
+  const c1p = Math.hypot(a1p, b1);
+  const c2p = Math.hypot(a2p, b2);
+  const hue = (b: number, a: number) => (b === 0 && a === 0 ? 0 : (Math.atan2(b, a) / rad + 360) % 360);
+  const h1p = hue(b1, a1p);
+  const h2p = hue(b2, a2p);
+
+  const dLp = l2 - l1;
+  const dCp = c2p - c1p;
+  let dhp = 0;
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin((dhp / 2) * rad);
+
+  const lMean = (l1 + l2) / 2;
+  const cMeanP = (c1p + c2p) / 2;
+  let hMean = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    hMean = Math.abs(h1p - h2p) > 180 ? (h1p + h2p + (h1p + h2p < 360 ? 360 : -360)) / 2 : (h1p + h2p) / 2;
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos((hMean - 30) * rad) +
+    0.24 * Math.cos(2 * hMean * rad) +
+    0.32 * Math.cos((3 * hMean + 6) * rad) -
+    0.2 * Math.cos((4 * hMean - 63) * rad);
+  const sl = 1 + (0.015 * Math.pow(lMean - 50, 2)) / Math.sqrt(20 + Math.pow(lMean - 50, 2));
+  const sc = 1 + 0.045 * cMeanP;
+  const sh = 1 + 0.015 * cMeanP * t;
+  const cMeanP7 = Math.pow(cMeanP, 7);
+  const rt =
+    -2 * Math.sqrt(cMeanP7 / (cMeanP7 + Math.pow(25, 7))) * Math.sin(60 * Math.exp(-Math.pow((hMean - 275) / 25, 2)) * rad);
+
+  return Math.sqrt(
+    Math.pow(dLp / sl, 2) + Math.pow(dCp / sc, 2) + Math.pow(dHp / sh, 2) + rt * (dCp / sc) * (dHp / sh)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/** Nearest brand color and whether the color is (perceptually) on-palette. `hex` must be normalized. */
+export function matchPalette(hex: string): PaletteMatch {
+  let nearest = { name: "", hex: "", deltaE: Infinity };
+  for (const [name, brandHex] of Object.entries(BRAND_COLORS)) {
+    const deltaE = deltaE2000(hex, brandHex);
+    if (deltaE < nearest.deltaE) nearest = { name, hex: brandHex, deltaE };
+  }
+  return { hex, onPalette: nearest.deltaE <= ON_PALETTE_DELTA_E, nearest: { ...nearest, deltaE: round(nearest.deltaE) } };
+}
+
+/** Contrast ratio, WCAG AA/AAA results and palette status for a color pair. Both colors must be normalized. */
+export function checkContrast(foreground: string, background: string): ContrastCheck {
+  const ratio = contrastRatio(foreground, background);
+  const check: ContrastCheck = {
+    foreground: matchPalette(foreground),
+    background: matchPalette(background),
+    // Truncate rather than round, so a displayed 4.50 never fails AA
+    ratio: Math.floor(ratio * 100) / 100,
+    aa: { normalText: ratio >= 4.5, largeText: ratio >= 3, uiComponents: ratio >= 3 },
+    aaa: { normalText: ratio >= 7, largeText: ratio >= 4.5 },
+  };
+
+  if (!check.aa.normalText) {
+    const candidates = Object.entries(BRAND_COLORS)
+      .map(([name, hex]) => ({ name, hex: hex as string, ratio: Math.floor(contrastRatio(hex, background) * 100) / 100 }))
+      .filter((c) => c.ratio >= 4.5)
+      .sort((a, b) => b.ratio - a.ratio);
+    if (candidates.length > 0) check.suggestion = candidates[0];
+  }
+
+  return check;
+}
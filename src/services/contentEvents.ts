@@ -0,0 +1,20 @@
+/**
+ * Content Change Events
+ *
+ * Emitted by the Brand Bible, glossary and stats services whenever a fetch produces
+ * content that differs from what was cached before, so other parts of the
+ * server (resource subscriptions, indexes) can react.
+ */
+
+import { EventEmitter } from "events";
+import type { BrandBible } from "../types.js";
+import type { GlossaryData } from "./glossary.js";
+import type { MarketingStats } from "./stats.js";
+
+interface ContentEventMap {
+  brandBibleChanged: [previous: BrandBible | null, current: BrandBible];
+  glossaryChanged: [previous: GlossaryData | null, current: GlossaryData];
+  statsChanged: [previous: MarketingStats | null, current: MarketingStats];
+}
+
+export const contentEvents = new EventEmitter<ContentEventMap>();
@@ -0,0 +1,293 @@
+/**
+ * Copy Review Service
+ *
+ * Reviews draft marketing copy (tweets, blog intros, press releases) against
+ * the SODAX Brand Bible and Technical Glossary.
+ *
+ * Rules are derived from the live content rather than hardcoded:
+ *   - Voice/tone and terminology rules come from the Do / Don't rules (see
+ *     brandRules.ts) in the "Brand Voice & Tone" and "Content Guidelines"
+ *     sections (e.g. `Avoid "revolutionary"`, `Use "networks" instead of
+ *     "chains"`, "Avoid exclamation marks").
+ *   - Capitalization rules come from glossary terms with distinctive casing
+ *     (e.g. "sodaVariants", "AMM").
+ *
+ * Every finding points back to the section, subsection or glossary entry that
+ * backs the rule, so reviewers can check the source themselves.
+ */
+
+import { fetchBrandBible } from "./brandBible.js";
+import { extractBrandRules } from "./brandRules.js";
+import type { BrandRule } from "./brandRules.js";
+import { fetchGlossary } from "./glossary.js";
+import type { BrandBible } from "../types.js";
+import type { GlossaryTerm } from "./glossary.js";
+import { escapeRegExp } from "./textMatching.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ReviewSeverity = "error" | "warning";
+
+export type ReviewCategory = "voice-tone" | "terminology" | "capitalization";
+
+export interface ReviewSource {
+  type: "brand-bible" | "glossary";
+  /** Section/subsection ID for Brand Bible rules, term title for glossary rules */
+  id: string;
+  title: string;
+}
+
+export interface ReviewFinding {
+  category: ReviewCategory;
+  severity: ReviewSeverity;
+  message: string;
+  /** Offset of the match in the reviewed text (UTF-16 code units, like String.prototype.slice) */
+  offset: number;
+  length: number;
+  match: string;
+  suggestion?: string;
+  /** The guideline text the rule was derived from */
+  rule: string;
+  source: ReviewSource;
+}
+
+export interface CopyReview {
+  characterCount: number;
+  findings: ReviewFinding[];
+  summary: {
+    errors: number;
+    warnings: number;
+  };
+  rulesChecked: number;
+  /** Brand Bible sections/subsections and glossary entries that rules were drawn from */
+  sourcesChecked: string[];
+}
+
+interface TermRule {
+  kind: "term";
+  phrase: string;
+  suggestion?: string;
+  severity: ReviewSeverity;
+  rule: string;
+  source: ReviewSource;
+}
+
+interface VoiceRule {
+  kind: "exclamation" | "emoji" | "all-caps";
+  rule: string;
+  source: ReviewSource;
+}
+
+type CheckRule = TermRule | VoiceRule;
+
+// ---------------------------------------------------------------------------
+// Rule extraction
+// ---------------------------------------------------------------------------
+
+/** Sections of the Brand Bible whose guidance applies to copy review */
+const REVIEW_SECTION_PATTERNS = [/voice/i, /tone/i, /content guidelines/i];
+
+// Only double quotes — single quotes collide with apostrophes ("don't")
+const QUOTED_PHRASE_PATTERN = /["“”]([^"“”]{2,60})["“”]/g;
+
+/** Words that are acceptable in all caps regardless of guidance */
+const ALLOWED_ALL_CAPS = new Set(["SODAX", "SODA", "DEX", "AMM", "API", "SDK", "DAO", "NFT", "TVL", "USD"]);
+
+function extractQuotedPhrases(text: string): string[] {
+  const phrases: string[] = [];
+  for (const match of text.matchAll(QUOTED_PHRASE_PATTERN)) {
+    const phrase = match[1].trim();
+    if (phrase) phrases.push(phrase);
+  }
+  return phrases;
+}
+
+/** Term and voice checks a Do / Don't rule implies */
+function checksFromRule(brandRule: BrandRule): CheckRule[] {
+  const checks: CheckRule[] = [];
+  const rule = brandRule.text;
+  const source: ReviewSource = { type: "brand-bible", id: brandRule.source.id, title: brandRule.source.title };
+  const severity: ReviewSeverity = /\bnever\b/i.test(rule) ? "error" : "warning";
+
+  // `Instead of "X", use "Y"` / `Use "Y" instead of "X"` / `"Y" not "X"`
+  const insteadOf = rule.match(/instead of\s+["“]([^"”]+)["”]\s*,?\s*(?:use|say|write)\s+["“]([^"”]+)["”]/i);
+  const useInstead = rule.match(/["“]([^"”]+)["”]\s*,?\s*(?:instead of|rather than|not)\s+["“]([^"”]+)["”]/i);
+
+  if (insteadOf) {
+    checks.push({ kind: "term", phrase: insteadOf[1], suggestion: insteadOf[2], severity, rule, source });
+  } else if (useInstead) {
+    checks.push({ kind: "term", phrase: useInstead[2], suggestion: useInstead[1], severity, rule, source });
+  } else if (brandRule.kind === "dont") {
+    // The phrases a don't quotes, in its text or its examples, are the wording to avoid
+    for (const phrase of new Set([rule, ...brandRule.examples].flatMap(extractQuotedPhrases))) {
+      checks.push({ kind: "term", phrase, severity, rule, source });
+    }
+  }
+
+  if (brandRule.kind === "dont") {
+    if (/exclamation/i.test(rule)) checks.push({ kind: "exclamation", rule, source });
+    if (/emoji/i.test(rule)) checks.push({ kind: "emoji", rule, source });
+    if (/all[\s-]caps|uppercase|capital letters/i.test(rule)) checks.push({ kind: "all-caps", rule, source });
+  }
+
+  return checks;
+}
+
+/** Checks from the rules in the voice/tone and content guideline sections */
+function reviewChecks(brandBible: BrandBible): { checks: CheckRule[]; sources: string[] } {
+  const sections = brandBible.sections.filter((section) => REVIEW_SECTION_PATTERNS.some((p) => p.test(section.title)));
+  const sectionIds = new Set(sections.map((section) => section.id));
+  const checks = extractBrandRules(brandBible)
+    .filter((rule) => sectionIds.has(rule.source.sectionId))
+    .flatMap(checksFromRule);
+  const sources = sections.flatMap((section) => [
+    `${section.id} ${section.title}`,
+    ...section.subsections.map((sub) => `${sub.id} ${sub.title}`),
+  ]);
+  return { checks, sources };
+}
+
+/** Glossary terms whose casing is part of the brand (e.g. "sodaVariants", "AMM") */
+function hasDistinctiveCasing(title: string): boolean {
+  if (/\s/.test(title)) return false;
+  const lower = title.toLowerCase();
+  const sentenceCase = lower.charAt(0).toUpperCase() + lower.slice(1);
+  return title !== lower && title !== sentenceCase;
+}
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+function checkTermRule(text: string, rule: TermRule): ReviewFinding[] {
+  const findings: ReviewFinding[] = [];
+  const regex = new RegExp(`(?<![\\w-])${escapeRegExp(rule.phrase)}(?![\\w-])`, "gi");
+
+  for (const match of text.matchAll(regex)) {
+    findings.push({
+      category: "terminology",
+      severity: rule.severity,
+      message: rule.suggestion
+        ? `"${match[0]}" is discouraged — use "${rule.suggestion}" instead.`
+        : `"${match[0]}" is discouraged by the brand guidelines.`,
+      offset: match.index ?? 0,
+      length: match[0].length,
+      match: match[0],
+      suggestion: rule.suggestion,
+      rule: rule.rule,
+      source: rule.source,
+    });
+  }
+
+  return findings;
+}
+
+function checkVoiceRule(text: string, rule: VoiceRule): ReviewFinding[] {
+  const findings: ReviewFinding[] = [];
+
+  let regex: RegExp;
+  let message: string;
+  switch (rule.kind) {
+    case "exclamation":
+      regex = /!+/g;
+      message = "Exclamation marks go against the brand voice guidelines.";
+      break;
+    case "emoji":
+      regex = /\p{Extended_Pictographic}/gu;
+      message = "Emoji use goes against the brand voice guidelines.";
+      break;
+    case "all-caps":
+      regex = /\b[A-Z]{4,}\b/g;
+      message = "All-caps words go against the brand voice guidelines.";
+      break;
+  }
+
+  for (const match of text.matchAll(regex)) {
+    if (rule.kind === "all-caps" && ALLOWED_ALL_CAPS.has(match[0])) continue;
+    findings.push({
+      category: "voice-tone",
+      severity: "warning",
+      message,
+      offset: match.index ?? 0,
+      length: match[0].length,
+      match: match[0],
+      rule: rule.rule,
+      source: rule.source,
+    });
+  }
+
+  return findings;
+}
+
+function checkCapitalization(text: string, term: GlossaryTerm): ReviewFinding[] {
+  const findings: ReviewFinding[] = [];
+  const regex = new RegExp(`(?<![\\w-])${escapeRegExp(term.title)}(?![\\w-])`, "gi");
+
+  for (const match of text.matchAll(regex)) {
+    if (match[0] === term.title) continue;
+    findings.push({
+      category: "capitalization",
+      severity: "warning",
+      message: `Glossary term is written "${term.title}", not "${match[0]}".`,
+      offset: match.index ?? 0,
+      length: match[0].length,
+      match: match[0],
+      suggestion: term.title,
+      rule: `Glossary term "${term.title}" (${term.category})`,
+      source: { type: "glossary", id: term.title, title: term.title },
+    });
+  }
+
+  return findings;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export async function reviewCopy(text: string): Promise<CopyReview> {
+  const [brandBible, glossary] = await Promise.all([fetchBrandBible(), fetchGlossary()]);
+  const { checks, sources } = reviewChecks(brandBible);
+
+  const findings: ReviewFinding[] = [];
+  const seenVoiceKinds = new Set<VoiceRule["kind"]>();
+  // Several guidelines may discourage the same phrase — report each match once, at its most severe
+  const termFindings = new Map<string, ReviewFinding>();
+
+  for (const rule of checks) {
+    if (rule.kind === "term") {
+      for (const finding of checkTermRule(text, rule)) {
+        const key = `${finding.offset}:${finding.match.toLowerCase()}`;
+        const seen = termFindings.get(key);
+        if (!seen || (seen.severity === "warning" && finding.severity === "error")) termFindings.set(key, finding);
+      }
+    } else if (!seenVoiceKinds.has(rule.kind)) {
+      // Several guidelines may forbid the same thing — report it once
+      seenVoiceKinds.add(rule.kind);
+      findings.push(...checkVoiceRule(text, rule));
+    }
+  }
+
+  findings.push(...termFindings.values());
+
+  const casingTerms = glossary.terms.filter((t) => hasDistinctiveCasing(t.title));
+  for (const term of casingTerms) {
+    findings.push(...checkCapitalization(text, term));
+    sources.push(`Glossary: ${term.title}`);
+  }
+
+  findings.sort((a, b) => a.offset - b.offset || b.length - a.length);
+
+  return {
+    characterCount: text.length,
+    findings,
+    summary: {
+      errors: findings.filter((f) => f.severity === "error").length,
+      warnings: findings.filter((f) => f.severity === "warning").length,
+    },
+    rulesChecked: checks.length + casingTerms.length,
+    sourcesChecked: sources,
+  };
+}
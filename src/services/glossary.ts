@@ -4,10 +4,16 @@
  * Fetches the SODAX Technical Glossary from two Notion databases via the
  * official Notion API.  New entries added to either database in Notion are
  * picked up automatically on the next cache refresh (every 5 min or on demand).
+ * The last good copy is persisted to disk and served after a restart while a
+ * background refresh runs.
  *
  * Sources:
  *   - System Concepts — high-level ideas and principles behind SODAX
  *   - System Components — concrete parts and modules that make up SODAX
+ *
+ * The database query only returns each term's properties. The body of a
+ * term's page (long-form explanation, examples, diagrams) and its relations
+ * to other terms are fetched on demand and cached per page version.
  */
 
 import { Client as NotionClient, isFullPage } from "@notionhq/client";
@@ -15,11 +21,16 @@ import type {
   PageObjectResponse,
   RichTextItemResponse,
 } from "@notionhq/client/build/src/api-endpoints.js";
-import {
-  GLOSSARY_SYSTEM_CONCEPTS_DB,
-  GLOSSARY_SYSTEM_COMPONENTS_DB,
-  GLOSSARY_CACHE_DURATION_MS,
-} from "../constants.js";
+import { getConfig } from "../config.js";
+import type { PlainLanguageAudience } from "../config.js";
+import { contentEvents } from "./contentEvents.js";
+import { CacheStatus, createCachedSource, formatRefreshFailure } from "./cacheManager.js";
+import { fetchBlockTree } from "./notionBlocks.js";
+import { blocksToMarkdown } from "./notionMarkdown.js";
+import { getRelatedTerms } from "./glossaryGraph.js";
+import { simplifyText } from "./plainLanguage.js";
+import type { Substitution } from "./plainLanguage.js";
+import { closestMatches, expandSynonyms, flexiblePattern, normalizeTerm } from "./textMatching.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -31,14 +42,52 @@ export interface GlossaryTerm {
   title: string;
   summary: string;
   tags: string[];
+  /** Alternative names and abbreviations ("MM", "Automated market maker") */
+  aliases: string[];
   category: GlossaryCategory;
   owner?: string;
+  /** Notion page ID — absent for hardcoded fallback terms */
+  id?: string;
+  /** When the Notion page was last edited (ISO 8601) */
+  lastEdited?: string;
+  /** Page IDs in each relation property ("Related to", "Not to be confused with") */
+  relatedPages?: { property: string; pageIds: string[] }[];
+}
+
+/** A relation property linking a term to other pages, e.g. "Not to be confused with" */
+export interface GlossaryTermRelation {
+  property: string;
+  /** Titles of the related glossary terms (or other pages) */
+  terms: string[];
+}
+
+export interface GlossaryTermDetail {
+  term: GlossaryTerm;
+  /** The term's page content as Markdown; empty if the page has none */
+  body: string;
+  relations: GlossaryTermRelation[];
+  url: string | null;
+  /** Why the page couldn't be fetched, when body and relations are missing */
+  unavailable?: string;
+}
+
+/** A database page left out of the glossary because it isn't a complete term */
+export interface DroppedGlossaryPage {
+  /** Notion page ID */
+  id: string;
+  /** Empty when the page has no title */
+  title: string;
+  category: GlossaryCategory;
+  reason: string;
+  url: string;
 }
 
 export interface GlossaryData {
   title: string;
   lastUpdated: Date;
   terms: GlossaryTerm[];
+  /** Pages skipped on the last fetch from Notion; absent in copies cached before they were recorded */
+  dropped?: DroppedGlossaryPage[];
 }
 
 // ---------------------------------------------------------------------------
@@ -53,7 +102,7 @@ function getNotionClient(): NotionClient | null {
   const token = process.env.NOTION_TOKEN;
   if (!token) {
     console.error(
-      "NOTION_TOKEN not set — glossary will use hardcoded fallback data. " +
+      "NOTION_TOKEN not set — glossary will be served from the disk cache or hardcoded fallback data. " +
         "Set the NOTION_TOKEN environment variable for live Notion sync."
     );
     return null;
@@ -66,12 +115,30 @@ function getNotionClient(): NotionClient | null {
 // Cache
 // ---------------------------------------------------------------------------
 
-let cachedGlossary: GlossaryData | null = null;
-let lastGlossaryFetchTime: Date | null = null;
-
-function isGlossaryCacheValid(): boolean {
-  if (!cachedGlossary || !lastGlossaryFetchTime) return false;
-  return Date.now() - lastGlossaryFetchTime.getTime() < GLOSSARY_CACHE_DURATION_MS;
+/** Databases reported changed by a webhook; when set, the next fetch requeries only these */
+let changedDatabases: Set<GlossaryCategory> | null = null;
+
+const glossaryCache = createCachedSource<GlossaryData>({
+  name: "glossary",
+  label: "Glossary",
+  ttlSeconds: () => getConfig().cache.glossaryTtlSeconds,
+  load: loadGlossaryFromNotion,
+  fallback: createFallbackGlossary,
+  revive: reviveGlossary,
+  // Announce the change if the terms differ
+  onUpdate: (previous, current) => {
+    if (!previous || JSON.stringify(previous.terms) !== JSON.stringify(current.terms)) {
+      contentEvents.emit("glossaryChanged", previous, current);
+    }
+  },
+});
+
+function reviveGlossary(data: unknown): GlossaryData | null {
+  const glossary = data as GlossaryData | null;
+  if (!glossary || !Array.isArray(glossary.terms) || glossary.terms.length === 0) return null;
+  // Copies cached before aliases were read have none
+  const terms = glossary.terms.map((term) => ({ ...term, aliases: term.aliases ?? [] }));
+  return { ...glossary, terms, lastUpdated: new Date(glossary.lastUpdated) };
 }
 
 // ---------------------------------------------------------------------------
@@ -85,6 +152,7 @@ const FALLBACK_SYSTEM_CONCEPTS: GlossaryTerm[] = [
     summary:
       "Money that exists in programmable, multi-network systems, where its usefulness depends on coordinated execution, timing, and context, not just ownership.",
     tags: ["money", "programmable", "multi-network", "execution"],
+    aliases: [],
     category: "system-concept",
   },
 ];
@@ -95,6 +163,7 @@ const FALLBACK_SYSTEM_COMPONENTS: GlossaryTerm[] = [
     summary:
       "A cross-network money market that lets SODAX and builders lend, borrow, and reuse capital across all integrated networks.",
     tags: ["money-market", "lending", "borrowing", "cross-network", "capital", "yield", "solver", "sdk"],
+    aliases: ["MM", "Lending market"],
     category: "system-component",
   },
   {
@@ -102,6 +171,7 @@ const FALLBACK_SYSTEM_COMPONENTS: GlossaryTerm[] = [
     summary:
       "The SODAX AMM is SODAX's internal decentralized exchange on the Sonic network, used to create tradeable markets for SODAX-native assets, primarily paired against bnUSD.",
     tags: ["system", "amm", "liquidity", "execution", "settlement"],
+    aliases: ["Automated market maker", "SODAX DEX"],
     category: "system-component",
   },
   {
@@ -109,6 +179,7 @@ const FALLBACK_SYSTEM_COMPONENTS: GlossaryTerm[] = [
     summary:
       "sodaVariants are how SODAX extends assets into networks where they do not exist natively, making them immediately usable through system-level liquidity.",
     tags: ["system", "assets", "liquidity", "execution", "cross-network"],
+    aliases: ["soda variants", "sodaVariant"],
     category: "system-component",
   },
   {
@@ -116,6 +187,7 @@ const FALLBACK_SYSTEM_COMPONENTS: GlossaryTerm[] = [
     summary:
       "Liquidity is the SODAX system component that enables cross-network actions to complete by treating assets as a unified, globally accessible inventory rather than isolated pools.",
     tags: ["system", "liquidity", "inventory", "execution", "cross-network"],
+    aliases: [],
     category: "system-component",
   },
   {
@@ -123,6 +195,7 @@ const FALLBACK_SYSTEM_COMPONENTS: GlossaryTerm[] = [
     summary:
       "The Solver is the part of SODAX responsible for deciding, initiating, and coordinating how a cross-network action is carried out, selecting the most reliable execution path across networks.",
     tags: ["routing", "solver", "cross-network", "execution", "liquidity"],
+    aliases: [],
     category: "system-component",
   },
   {
@@ -130,6 +203,7 @@ const FALLBACK_SYSTEM_COMPONENTS: GlossaryTerm[] = [
     summary:
       "The coordinator is a solver component responsible for constructing and monitoring the execution plan for a cross-network action across networks.",
     tags: ["system", "solver", "coordinator", "execution", "cross-network"],
+    aliases: [],
     category: "system-component",
   },
 ];
@@ -143,8 +217,22 @@ function richTextToPlain(rt: RichTextItemResponse[]): string {
   return rt.map((t) => t.plain_text).join("");
 }
 
-/** Convert a Notion database page to a GlossaryTerm */
-function pageToTerm(page: PageObjectResponse, category: GlossaryCategory): GlossaryTerm | null {
+/** Properties holding alternative names for a term */
+const ALIAS_PROPERTIES = ["Aliases", "Alias", "Abbreviations", "Abbreviation", "Also known as"];
+
+/** Trimmed aliases without duplicates or repeats of the title itself */
+function uniqueAliases(aliases: string[], title: string): string[] {
+  const seen = new Set([normalizeTerm(title)]);
+  return aliases
+    .map((alias) => alias.trim())
+    .filter((alias) => alias && !seen.has(normalizeTerm(alias)) && seen.add(normalizeTerm(alias)));
+}
+
+/** Properties a term's summary is read from, in order of preference */
+const SUMMARY_PROPERTIES = ["One-sentency summary", "Summary", "Description"];
+
+/** Convert a Notion database page to a GlossaryTerm, or say why it can't be one */
+function pageToTerm(page: PageObjectResponse, category: GlossaryCategory): GlossaryTerm | DroppedGlossaryPage {
   const props = page.properties;
 
   // Title — Notion stores the title in a property of type "title"
@@ -153,7 +241,7 @@ function pageToTerm(page: PageObjectResponse, category: GlossaryCategory): Gloss
 
   // Summary — look for "One-sentency summary" or "Summary" rich_text property
   let summary = "";
-  for (const key of ["One-sentency summary", "Summary", "Description"]) {
+  for (const key of SUMMARY_PROPERTIES) {
     const prop = props[key];
     if (prop && prop.type === "rich_text") {
       summary = richTextToPlain(prop.rich_text);
@@ -168,6 +256,18 @@ function pageToTerm(page: PageObjectResponse, category: GlossaryCategory): Gloss
       ? tagsProp.multi_select.map((t) => t.name)
       : [];
 
+  // Aliases — multi_select, or comma/semicolon-separated rich_text
+  const aliases: string[] = [];
+  for (const key of ALIAS_PROPERTIES) {
+    const prop = props[key];
+    if (prop?.type === "multi_select") aliases.push(...prop.multi_select.map((option) => option.name));
+    else if (prop?.type === "rich_text") aliases.push(...richTextToPlain(prop.rich_text).split(/[,;\n]/));
+  }
+
+  // Relations — page IDs, matched to terms when the glossary graph is built
+  const relatedPages = Object.entries(props)
+    .flatMap(([property, prop]) => (prop.type === "relation" && prop.relation.length > 0 ? [{ property, pageIds: prop.relation.map((r) => r.id) }] : []));
+
   // Owner — person property or rich_text named "Owner"
   let owner: string | undefined;
   const ownerProp = props["Owner"];
@@ -178,9 +278,22 @@ function pageToTerm(page: PageObjectResponse, category: GlossaryCategory): Gloss
     owner = richTextToPlain(ownerProp.rich_text) || undefined;
   }
 
-  if (!title || !summary) return null;
+  if (!title || !summary) {
+    const missing = [!title && "title", !summary && `summary (${SUMMARY_PROPERTIES.map((key) => `"${key}"`).join(", ")})`].filter(Boolean);
+    return { id: page.id, title: title.trim(), category, reason: `No ${missing.join(" or ")}`, url: page.url };
+  }
 
-  return { title, summary, tags, category, owner };
+  return {
+    title,
+    summary,
+    tags,
+    aliases: uniqueAliases(aliases, title),
+    category,
+    owner,
+    id: page.id,
+    lastEdited: page.last_edited_time,
+    relatedPages,
+  };
 }
 
 /** Query all pages from a Notion database using dataSources.query (v5.9+) */
@@ -188,8 +301,9 @@ async function queryDatabase(
   notion: NotionClient,
   databaseId: string,
   category: GlossaryCategory
-): Promise<GlossaryTerm[]> {
+): Promise<{ terms: GlossaryTerm[]; dropped: DroppedGlossaryPage[] }> {
   const terms: GlossaryTerm[] = [];
+  const dropped: DroppedGlossaryPage[] = [];
   let cursor: string | undefined;
 
   do {
@@ -202,69 +316,76 @@ async function queryDatabase(
     for (const page of response.results) {
       if (!isFullPage(page)) continue;
       const term = pageToTerm(page, category);
-      if (term) terms.push(term);
+      if ("reason" in term) dropped.push(term);
+      else terms.push(term);
     }
 
     cursor = response.has_more ? (response.next_cursor ?? undefined) : undefined;
   } while (cursor);
 
-  return terms;
+  return { terms, dropped };
 }
 
 // ---------------------------------------------------------------------------
 // Main fetch
 // ---------------------------------------------------------------------------
 
+/**
+ * The glossary. Expired content is returned immediately while a background
+ * refresh runs; only a cold start (or a forced refresh) waits for Notion.
+ */
 export async function fetchGlossary(forceRefresh = false): Promise<GlossaryData> {
-  if (!forceRefresh && isGlossaryCacheValid() && cachedGlossary) {
-    return cachedGlossary;
-  }
+  return glossaryCache.get(forceRefresh);
+}
 
-  const notion = getNotionClient();
+async function loadGlossaryFromNotion(previous: GlossaryData | null): Promise<GlossaryData> {
+  const changed = changedDatabases;
+  changedDatabases = null;
 
-  if (notion) {
-    try {
-      const [concepts, components] = await Promise.all([
-        queryDatabase(notion, GLOSSARY_SYSTEM_CONCEPTS_DB, "system-concept"),
-        queryDatabase(notion, GLOSSARY_SYSTEM_COMPONENTS_DB, "system-component"),
-      ]);
-
-      const glossary: GlossaryData = {
-        title: "SODAX Technical Glossary",
-        lastUpdated: new Date(),
-        terms: [...concepts, ...components],
-      };
-
-      cachedGlossary = glossary;
-      lastGlossaryFetchTime = new Date();
-      console.error(
-        `Glossary fetched from Notion API at ${lastGlossaryFetchTime.toISOString()} — ` +
-          `${concepts.length} concepts, ${components.length} components`
-      );
-      return glossary;
-    } catch (error) {
-      console.error("Error fetching glossary from Notion API:", error);
-      if (cachedGlossary) {
-        console.error("Returning cached glossary due to API error");
-        return cachedGlossary;
-      }
-      // Fall through to fallback
-    }
-  }
+  const notion = getNotionClient();
+  if (!notion) throw new Error("NOTION_TOKEN not set");
+
+  // Requery a database unless only the other one is known to have changed
+  const load = (databaseId: string, category: GlossaryCategory) =>
+    previous && changed && !changed.has(category)
+      ? Promise.resolve({
+          terms: previous.terms.filter((term) => term.category === category),
+          dropped: (previous.dropped ?? []).filter((page) => page.category === category),
+        })
+      : queryDatabase(notion, databaseId, category);
+
+  const source = getConfig().sources.glossary;
+  const [concepts, components] = await Promise.all([
+    load(source.systemConceptsDatabaseId, "system-concept"),
+    load(source.systemComponentsDatabaseId, "system-component"),
+  ]);
 
-  // Fallback: hardcoded terms
   const glossary: GlossaryData = {
     title: "SODAX Technical Glossary",
     lastUpdated: new Date(),
-    terms: [...FALLBACK_SYSTEM_CONCEPTS, ...FALLBACK_SYSTEM_COMPONENTS],
+    terms: [...concepts.terms, ...components.terms],
+    dropped: [...concepts.dropped, ...components.dropped],
   };
 
-  cachedGlossary = glossary;
-  lastGlossaryFetchTime = new Date();
-  console.error("Using hardcoded fallback glossary data");
+  const skipped = concepts.dropped.length + components.dropped.length;
+  console.error(
+    `Glossary fetched from Notion API at ${glossary.lastUpdated.toISOString()} — ` +
+      `${concepts.terms.length} concepts, ${components.terms.length} components` +
+      (skipped > 0 ? `, ${skipped} incomplete page(s) skipped` : "")
+  );
   return glossary;
 }
 
+/** Hardcoded terms, used only when Notion is unavailable and nothing was ever cached */
+function createFallbackGlossary(): GlossaryData {
+  return {
+    title: "SODAX Technical Glossary",
+    lastUpdated: new Date(),
+    terms: [...FALLBACK_SYSTEM_CONCEPTS, ...FALLBACK_SYSTEM_COMPONENTS],
+    dropped: [],
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Public helpers consumed by tools
 // ---------------------------------------------------------------------------
@@ -305,14 +426,121 @@ export async function getAllTerms(category?: GlossaryCategory): Promise<Glossary
   return category ? glossary.terms.filter((t) => t.category === category) : glossary.terms;
 }
 
+/** How a query matched a term */
+export type TermMatch = "title" | "alias" | "synonym" | "partial" | "fuzzy";
+
+export interface TermCandidate {
+  term: GlossaryTerm;
+  matchedBy: TermMatch;
+  /** The title or alias the query matched */
+  matched: string;
+  /** 0–1, higher is closer */
+  score: number;
+}
+
+export interface TermResolution {
+  /** The term the query identifies, or null if it matched none or several */
+  term: GlossaryTerm | null;
+  matchedBy: TermMatch | null;
+  /** Every term the query could mean, best first; more than one with no term picked means it is ambiguous */
+  candidates: TermCandidate[];
+}
+
+/** Ranking of match kinds, used to break score ties */
+const MATCH_RANK: Record<TermMatch, number> = { title: 4, alias: 3, synonym: 2, partial: 1, fuzzy: 0 };
+
+/** The best candidate is only picked when it scores at least this much above the runner-up */
+const AMBIGUITY_MARGIN = 0.1;
+/** Slack for float error in score gaps, so a gap of exactly the margin is decisive */
+const SCORE_EPSILON = 1e-9;
+
+/**
+ * Resolve a query to a glossary term. An exact title wins, then an exact
+ * alias or abbreviation; otherwise synonyms ("DEX" → "AMM"), partial matches
+ * ("money" → "Money Market", "Modern money") and misspellings ("solvr" →
+ * "Solver") are collected and ranked, and the best one is picked. When the
+ * top two score within AMBIGUITY_MARGIN of each other (or two terms share an
+ * exact title or alias), no term is picked. Either way every candidate is
+ * returned, best first.
+ */
+export async function resolveTerm(query: string): Promise<TermResolution> {
+  return rankTerms((await fetchGlossary()).terms, query);
+}
+
+/** resolveTerm against a given list of terms */
+export function rankTerms(terms: GlossaryTerm[], query: string): TermResolution {
+  const nq = normalizeTerm(query);
+  if (!nq) return { term: null, matchedBy: null, candidates: [] };
+
+  const names = (term: GlossaryTerm) => [
+    { name: term.title, kind: "title" as const },
+    ...term.aliases.map((alias) => ({ name: alias, kind: "alias" as const })),
+  ];
+  const resolved = (candidates: TermCandidate[]): TermResolution => {
+    const ranked = candidates.sort((a, b) => b.score - a.score || MATCH_RANK[b.matchedBy] - MATCH_RANK[a.matchedBy]);
+    const ambiguous = ranked.length > 1 && ranked[0].score - ranked[1].score < AMBIGUITY_MARGIN - SCORE_EPSILON;
+    return ranked.length > 0 && !ambiguous
+      ? { term: ranked[0].term, matchedBy: ranked[0].matchedBy, candidates: ranked }
+      : { term: null, matchedBy: null, candidates: ranked };
+  };
+
+  // Exact title, then exact alias
+  for (const kind of ["title", "alias"] as const) {
+    const exact = terms.flatMap((term) =>
+      names(term)
+        .filter((n) => n.kind === kind && normalizeTerm(n.name) === nq)
+        .slice(0, 1)
+        .map((n): TermCandidate => ({ term, matchedBy: kind, matched: n.name, score: 1 }))
+    );
+    if (exact.length > 0) return resolved(exact);
+  }
+
+  // Everything else is collected and ranked, keeping each term's best match
+  const best = new Map<GlossaryTerm, TermCandidate>();
+  const consider = (candidate: TermCandidate) => {
+    const current = best.get(candidate.term);
+    if (!current || candidate.score > current.score) best.set(candidate.term, candidate);
+  };
+
+  const synonyms = expandSynonyms(query).map(normalizeTerm);
+  for (const term of terms) {
+    for (const { name } of names(term)) {
+      const nn = normalizeTerm(name);
+      if (synonyms.includes(nn)) consider({ term, matchedBy: "synonym", matched: name, score: 0.95 });
+      // Longer overlaps and matches at the start of the name rank higher
+      if (nn.includes(nq) || (nq.length >= 4 && nq.includes(nn))) {
+        const overlap = Math.min(nq.length, nn.length) / Math.max(nq.length, nn.length);
+        consider({ term, matchedBy: "partial", matched: name, score: 0.5 + 0.3 * overlap + (nn.startsWith(nq) ? 0.1 : 0) });
+      }
+    }
+  }
+
+  const byName = new Map(terms.flatMap((term) => names(term).map((n) => [n.name, term] as const)));
+  for (const match of closestMatches(query, byName.keys(), { threshold: 0.7, limit: 5 })) {
+    consider({ term: byName.get(match.value)!, matchedBy: "fuzzy", matched: match.value, score: match.score * 0.9 });
+  }
+
+  return resolved([...best.values()]);
+}
+
+/** The term a query identifies, or null if it matches none or is ambiguous */
 export async function getTerm(termTitle: string): Promise<GlossaryTerm | null> {
+  return (await resolveTerm(termTitle)).term;
+}
+
+/** "Did you mean" suggestions for a query that matched no term */
+export async function suggestTerms(query: string, limit = 3): Promise<string[]> {
   const glossary = await fetchGlossary();
-  const q = termTitle.toLowerCase();
-  return (
-    glossary.terms.find(
-      (t) => t.title.toLowerCase() === q || t.title.toLowerCase().includes(q)
-    ) ?? null
-  );
+  const candidates = [
+    ...glossary.terms.map((t) => t.title),
+    ...glossary.terms.flatMap((t) => t.aliases),
+    ...glossary.terms.flatMap((t) => t.tags),
+  ];
+  const seen = new Set<string>();
+  return closestMatches(query, candidates, { threshold: 0.4, limit: limit * 2 })
+    .map((m) => m.value)
+    .filter((value) => !seen.has(normalizeTerm(value)) && seen.add(normalizeTerm(value)))
+    .slice(0, limit);
 }
 
 export async function searchGlossary(
@@ -320,21 +548,36 @@ export async function searchGlossary(
   category?: GlossaryCategory
 ): Promise<GlossaryTerm[]> {
   const glossary = await fetchGlossary();
-  const words = query.toLowerCase().split(/\s+/);
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const synonyms = expandSynonyms(query).map((s) => s.toLowerCase());
 
+  // Correct misspelled words against the glossary vocabulary ("solvr" → "solver")
+  const vocabulary = new Set<string>();
+  for (const term of glossary.terms) {
+    for (const word of `${term.title} ${term.aliases.join(" ")} ${term.tags.join(" ")}`.toLowerCase().split(/\s+/)) {
+      if (word.length >= 3) vocabulary.add(word);
+    }
+  }
+  const corrections = words
+    .filter((w) => w.length >= 4 && ![...vocabulary].some((v) => v.includes(w)))
+    .map((w) => closestMatches(w, vocabulary, { threshold: 0.7, limit: 1 })[0]?.value)
+    .filter((w): w is string => Boolean(w));
+
+  const contains = (text: string, word: string) => new RegExp(flexiblePattern(word), "i").test(text);
   const scored: { term: GlossaryTerm; score: number }[] = [];
 
   for (const term of glossary.terms) {
     if (category && term.category !== category) continue;
     let score = 0;
-    const tl = term.title.toLowerCase();
-    const sl = term.summary.toLowerCase();
-    for (const w of words) {
-      if (tl.includes(w)) score += 10;
-      if (term.tags.some((tag) => tag.toLowerCase().includes(w))) score += 5;
-      if (sl.includes(w)) score += 2;
-    }
-    if (tl === query.toLowerCase()) score += 20;
+    const scoreWord = (w: string, weight: number) => {
+      if (contains(term.title, w)) score += 10 * weight;
+      else if (term.aliases.some((alias) => contains(alias, w))) score += 8 * weight;
+      if (term.tags.some((tag) => contains(tag, w))) score += 5 * weight;
+      if (contains(term.summary, w)) score += 2 * weight;
+    };
+    for (const w of words) scoreWord(w, 1);
+    for (const w of [...synonyms, ...corrections]) scoreWord(w, 0.5);
+    if ([term.title, ...term.aliases].some((name) => normalizeTerm(name) === normalizeTerm(query))) score += 20;
     if (score > 0) scored.push({ term, score });
   }
 
@@ -355,10 +598,11 @@ export async function getTermsByTag(
 
 export async function refreshGlossary(): Promise<{ success: boolean; message: string }> {
   try {
-    const glossary = await fetchGlossary(true);
+    const { value: glossary, fresh, error } = await glossaryCache.refresh();
+    if (!fresh) return { success: false, message: formatRefreshFailure(error, glossaryCache.status()) };
     return {
       success: true,
-      message: `Glossary refreshed at ${lastGlossaryFetchTime?.toISOString()} — ${glossary.terms.length} total terms`,
+      message: `Glossary refreshed at ${glossaryCache.status().lastUpdated} — ${glossary.terms.length} total terms`,
     };
   } catch (error) {
     return {
@@ -368,42 +612,121 @@ export async function refreshGlossary(): Promise<{ success: boolean; message: st
   }
 }
 
-export async function translateTerm(technicalTerm: string): Promise<{
+export function getGlossaryCacheStatus(): CacheStatus {
+  return glossaryCache.status();
+}
+
+/** Refetch the glossary after a change in Notion, requerying only the changed database */
+export function invalidateGlossary(category: GlossaryCategory): Promise<GlossaryData> {
+  (changedDatabases ??= new Set()).add(category);
+  return glossaryCache.invalidate();
+}
+
+// ---------------------------------------------------------------------------
+// Term detail (page body and relations, fetched on demand)
+// ---------------------------------------------------------------------------
+
+/** Most term pages kept in memory; the oldest is dropped first */
+const TERM_DETAIL_CACHE_LIMIT = 200;
+
+type TermPage = Omit<GlossaryTermDetail, "term" | "unavailable">;
+
+/** Fetched pages keyed by page ID and edit time, so an edit in Notion is picked up on the next glossary refresh */
+const termPageCache = new Map<string, { fetchedAt: number; page: Promise<TermPage> }>();
+
+async function loadTermPage(notion: NotionClient, term: GlossaryTerm & { id: string }): Promise<TermPage> {
+  const [page, blocks] = await Promise.all([
+    notion.pages.retrieve({ page_id: term.id }),
+    fetchBlockTree(notion, term.id),
+  ]);
+
+  const relations: GlossaryTermRelation[] = [];
+  if (isFullPage(page)) {
+    const glossary = await fetchGlossary();
+    const titles = new Map(glossary.terms.filter((t) => t.id).map((t) => [t.id!.replace(/-/g, ""), t.title]));
+    for (const [property, prop] of Object.entries(page.properties)) {
+      if (prop.type !== "relation" || prop.relation.length === 0) continue;
+      // Pages outside the glossary are looked up by title
+      const terms = await Promise.all(prop.relation.map(async ({ id }) => titles.get(id.replace(/-/g, "")) ?? pageTitle(notion, id)));
+      relations.push({ property, terms: terms.filter((t): t is string => t !== null) });
+    }
+  }
+
+  return {
+    body: blocksToMarkdown(blocks),
+    relations: relations.filter((r) => r.terms.length > 0),
+    url: isFullPage(page) ? page.url : null,
+  };
+}
+
+async function pageTitle(notion: NotionClient, pageId: string): Promise<string | null> {
+  try {
+    const page = await notion.pages.retrieve({ page_id: pageId });
+    if (!isFullPage(page)) return null;
+    const titleProp = Object.values(page.properties).find((p) => p.type === "title");
+    return titleProp && titleProp.type === "title" ? richTextToPlain(titleProp.title) || null : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A term with its full page content and relations. Pages are fetched lazily
+ * and cached for the glossary TTL; a failed fetch is reported in
+ * `unavailable` rather than thrown, so the summary can still be served.
+ */
+export async function getTermDetail(term: GlossaryTerm): Promise<GlossaryTermDetail> {
+  const empty = { term, body: "", relations: [], url: null };
+  if (!term.id) return { ...empty, unavailable: "this term comes from the built-in fallback glossary, which has no page content" };
+  if (getConfig().snapshotPath) return { ...empty, unavailable: "snapshot bundles hold term summaries only, not page content" };
+  const notion = getNotionClient();
+  if (!notion) return { ...empty, unavailable: "page content needs a live Notion connection (NOTION_TOKEN)" };
+
+  const key = `${term.id}@${term.lastEdited ?? ""}`;
+  let entry = termPageCache.get(key);
+  if (!entry || Date.now() - entry.fetchedAt > getConfig().cache.glossaryTtlSeconds * 1000) {
+    const page = loadTermPage(notion, { ...term, id: term.id });
+    // Concurrent lookups share the fetch; a failure isn't cached
+    page.catch(() => termPageCache.get(key)?.page === page && termPageCache.delete(key));
+    entry = { fetchedAt: Date.now(), page };
+    termPageCache.delete(key);
+    termPageCache.set(key, entry);
+    while (termPageCache.size > TERM_DETAIL_CACHE_LIMIT) termPageCache.delete(termPageCache.keys().next().value!);
+  }
+
+  try {
+    return { term, ...(await entry.page) };
+  } catch (error) {
+    console.error(`Error fetching glossary page for "${term.title}":`, error);
+    return { ...empty, unavailable: `the page couldn't be fetched from Notion (${error instanceof Error ? error.message : String(error)})` };
+  }
+}
+
+/** Plain-language translation of a term; null if the query matches no term or several (see resolveTerm) */
+export async function translateTerm(technicalTerm: string, audience: PlainLanguageAudience | null = null): Promise<{
   term: string;
+  aliases: string[];
   category: GlossaryCategory;
   technicalDefinition: string;
   simpleExplanation: string;
+  audience: PlainLanguageAudience | null;
+  /** Dictionary substitutions that produced the simple explanation */
+  substitutions: Substitution[];
+  /** Most closely related terms in the glossary graph, strongest first */
   relatedTerms: string[];
 } | null> {
   const term = await getTerm(technicalTerm);
   if (!term) return null;
 
-  const glossary = await fetchGlossary();
-  const relatedTerms: string[] = [];
-  for (const other of glossary.terms) {
-    if (other.title === term.title) continue;
-    if (term.tags.some((tag) => other.tags.includes(tag))) {
-      relatedTerms.push(other.title);
-    }
-  }
-
+  const simple = simplifyText(term.summary, audience);
   return {
     term: term.title,
+    aliases: term.aliases,
     category: term.category,
     technicalDefinition: term.summary,
-    simpleExplanation: simplifyExplanation(term.summary),
-    relatedTerms: relatedTerms.slice(0, 5),
+    simpleExplanation: simple.text,
+    audience,
+    substitutions: simple.substitutions,
+    relatedTerms: await getRelatedTerms(term.title),
   };
 }
-
-function simplifyExplanation(technical: string): string {
-  return technical
-    .replace(/cross-network/gi, "across multiple blockchains")
-    .replace(/execution path/gi, "route")
-    .replace(/orchestrated/gi, "managed")
-    .replace(/decentralized exchange/gi, "trading platform")
-    .replace(/liquidity/gi, "available funds")
-    .replace(/settlement/gi, "final processing")
-    .replace(/interoperability/gi, "ability to work together")
-    .replace(/protocol/gi, "system");
-}
@@ -0,0 +1,277 @@
+/**
+ * Glossary Annotation
+ *
+ * Finds every glossary term in a piece of copy — by title or alias, in
+ * plural and possessive forms ("Solvers", "AMM's") — and annotates its first
+ * occurrence with a link, a footnoted definition or an entry in a trailing
+ * "Key terms" box, as Markdown or HTML. Jargon with no glossary entry yet
+ * (acronyms, camelCase names, dictionary and known DeFi terms) is reported so
+ * the glossary can catch up.
+ *
+ * Inline code, existing links and URLs are left untouched.
+ */
+
+import { GLOSSARY_SYSTEM_COMPONENTS_URL, GLOSSARY_SYSTEM_CONCEPTS_URL, JARGON_TERMS } from "../constants.js";
+import { fetchGlossary } from "./glossary.js";
+import type { GlossaryTerm } from "./glossary.js";
+import { escapeHtml, markdownToHtml } from "./markdownHtml.js";
+import { getPlainLanguageDictionary, simplifyText } from "./plainLanguage.js";
+import { expandSynonyms, flexiblePattern, normalizeTerm } from "./textMatching.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type AnnotationStyle = "links" | "footnotes" | "key-terms";
+export type AnnotationFormat = "markdown" | "html";
+
+export interface TermOccurrence {
+  /** Glossary term title */
+  term: string;
+  /** The text as written, e.g. "Solvers" */
+  match: string;
+  /** Offset in the input text (UTF-16 code units, like String.prototype.slice) */
+  offset: number;
+  length: number;
+}
+
+export interface AnnotatedTerm {
+  title: string;
+  summary: string;
+  category: GlossaryTerm["category"];
+  url: string;
+  occurrences: number;
+}
+
+export interface UnknownJargon {
+  /** The jargon as first written */
+  text: string;
+  count: number;
+  kind: "acronym" | "camel-case" | "jargon";
+  /** Plain-language wording from the dictionary, if it has one */
+  plainLanguage?: string;
+  /** Glossary terms it is a synonym of, e.g. "DEX" → "AMM" */
+  related: string[];
+}
+
+export interface AnnotatedText {
+  text: string;
+  style: AnnotationStyle;
+  format: AnnotationFormat;
+  /** Glossary terms found, in order of first appearance */
+  terms: AnnotatedTerm[];
+  occurrences: TermOccurrence[];
+  unknownJargon: UnknownJargon[];
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+/** Plural and possessive endings accepted after a term ("Solvers", "AMM's", "sodaVariants'") */
+const INFLECTION = "(?:e?s)?(?:['’]s?)?";
+
+/** Short or all-caps names ("AMM", "MM") only match as written, so "mm" or "Amm" don't count */
+function isCaseSensitive(name: string): boolean {
+  return name.length <= 3 || /^[\p{Lu}\p{N}\s-]+$/u.test(name);
+}
+
+function namePattern(name: string): RegExp {
+  // "Liquidity" also matches "liquidities"
+  const stem = /[^aeiou]y$/i.test(name) ? `${flexiblePattern(name.slice(0, -1))}(?:y|ies)` : flexiblePattern(name);
+  return new RegExp(`(?<![\\p{L}\\p{N}_-])${stem}${INFLECTION}(?![\\p{L}\\p{N}_-])`, isCaseSensitive(name) ? "gu" : "giu");
+}
+
+/** Ranges that must not be annotated: inline code, Markdown links and bare URLs */
+function protectedRanges(text: string): [number, number][] {
+  const ranges: [number, number][] = [];
+  for (const pattern of [/`[^`\n]+`/g, /!?\[[^\]\n]*\]\([^)\n]*\)/g, /<[^>\n]+>/g, /\bhttps?:\/\/\S+/g]) {
+    for (const match of text.matchAll(pattern)) ranges.push([match.index!, match.index! + match[0].length]);
+  }
+  return ranges;
+}
+
+const overlaps = (ranges: [number, number][], start: number, end: number) =>
+  ranges.some(([from, to]) => start < to && end > from);
+
+/** Every glossary term occurrence, longest match first where names overlap */
+export function findTermOccurrences(text: string, terms: GlossaryTerm[]): TermOccurrence[] {
+  const candidates: TermOccurrence[] = [];
+  for (const term of terms) {
+    for (const name of [term.title, ...term.aliases]) {
+      for (const match of text.matchAll(namePattern(name))) {
+        candidates.push({ term: term.title, match: match[0], offset: match.index!, length: match[0].length });
+      }
+    }
+  }
+
+  const claimed = protectedRanges(text);
+  const occurrences: TermOccurrence[] = [];
+  for (const candidate of candidates.sort((a, b) => b.length - a.length || a.offset - b.offset)) {
+    const end = candidate.offset + candidate.length;
+    if (overlaps(claimed, candidate.offset, end)) continue;
+    claimed.push([candidate.offset, end]);
+    occurrences.push(candidate);
+  }
+  return occurrences.sort((a, b) => a.offset - b.offset);
+}
+
+/** Words that look like jargon but aren't worth flagging */
+const COMMON_ACRONYMS = new Set([
+  "SODAX", "SODA", "I", "A", "OK", "US", "UK", "EU", "CEO", "CTO", "FAQ", "PR", "AI", "TV", "ID", "USD", "ETA", "TBD", "NB",
+  // Design and marketing vocabulary, common in the Brand Bible
+  "RGB", "CMYK", "HEX", "PMS", "PNG", "SVG", "JPG", "JPEG", "PDF", "URL", "CTA", "SEO", "UI", "UX", "KPI", "ROI",
+]);
+
+/** Jargon in the text that no glossary term covers */
+export function findUnknownJargon(text: string, terms: GlossaryTerm[], occurrences: TermOccurrence[]): UnknownJargon[] {
+  const known = new Set(terms.flatMap((t) => [t.title, ...t.aliases]).map(normalizeTerm));
+  const claimed: [number, number][] = [...protectedRanges(text), ...occurrences.map((o): [number, number] => [o.offset, o.offset + o.length])];
+  const dictionary = getPlainLanguageDictionary();
+  const found = new Map<string, UnknownJargon>();
+
+  const consider = (match: RegExpMatchArray, kind: UnknownJargon["kind"]) => {
+    const start = match.index!;
+    const word = match[0].replace(/(?:['’]s?)$/, "");
+    const key = normalizeTerm(word.replace(/(?<=\p{Ll}{3})s$/u, ""));
+    if (!key || known.has(key) || known.has(normalizeTerm(word)) || overlaps(claimed, start, start + match[0].length)) return;
+    claimed.push([start, start + match[0].length]);
+
+    const existing = found.get(key);
+    if (existing) {
+      existing.count++;
+      return;
+    }
+    const plain = simplifyText(word).text;
+    const related = expandSynonyms(word).filter((synonym) => known.has(normalizeTerm(synonym)));
+    found.set(key, {
+      text: word,
+      count: 1,
+      kind,
+      plainLanguage: plain !== word ? plain : undefined,
+      related: terms.filter((t) => related.some((r) => normalizeTerm(r) === normalizeTerm(t.title))).map((t) => t.title),
+    });
+  };
+
+  // Known jargon first (multi-word phrases before the words inside them)
+  const phrases = [...dictionary.flatMap((e) => [e.term, ...(e.variants ?? [])]), ...JARGON_TERMS]
+    .sort((a, b) => b.length - a.length);
+  for (const phrase of phrases) {
+    for (const match of text.matchAll(namePattern(phrase))) consider(match, "jargon");
+  }
+  for (const match of text.matchAll(/(?<![\p{L}\p{N}_-])\p{Lu}{2,6}s?(?![\p{L}\p{N}_-])/gu)) {
+    if (!COMMON_ACRONYMS.has(match[0].replace(/s$/, ""))) consider(match, "acronym");
+  }
+  for (const match of text.matchAll(/(?<![\p{L}\p{N}_-])\p{Ll}+\p{Lu}[\p{L}\p{N}]*(?![\p{L}\p{N}_-])/gu)) {
+    consider(match, "camel-case");
+  }
+
+  return [...found.values()].sort((a, b) => b.count - a.count || a.text.localeCompare(b.text));
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+/** Link target for a term: its Notion page, else its glossary database */
+export function termUrl(term: GlossaryTerm): string {
+  if (term.id) return `https://www.notion.so/${term.id.replace(/-/g, "")}`;
+  return term.category === "system-concept" ? GLOSSARY_SYSTEM_CONCEPTS_URL : GLOSSARY_SYSTEM_COMPONENTS_URL;
+}
+
+/** Placeholder for an annotation, swapped for HTML after the Markdown is rendered */
+const placeholder = (index: number) => `\u0001${index}\u0001`;
+
+function markdownAnnotation(style: AnnotationStyle, occurrence: TermOccurrence, term: AnnotatedTerm, footnote: number): string {
+  if (style === "links") return `[${occurrence.match}](${term.url} "${term.summary.replace(/"/g, "'")}")`;
+  if (style === "footnotes") return `${occurrence.match}[^${footnote}]`;
+  return occurrence.match;
+}
+
+function htmlAnnotation(style: AnnotationStyle, occurrence: TermOccurrence, term: AnnotatedTerm, footnote: number): string {
+  const match = escapeHtml(occurrence.match);
+  if (style === "links") {
+    return `<a class="glossary-term" href="${escapeHtml(term.url)}" title="${escapeHtml(term.summary)}">${match}</a>`;
+  }
+  if (style === "footnotes") return `${match}<sup><a href="#term-${footnote}" id="term-ref-${footnote}">${footnote}</a></sup>`;
+  return `<dfn class="glossary-term">${match}</dfn>`;
+}
+
+function markdownAppendix(style: AnnotationStyle, terms: AnnotatedTerm[]): string {
+  if (terms.length === 0 || style === "links") return "";
+  if (style === "footnotes") {
+    return `\n\n${terms.map((t, i) => `[^${i + 1}]: **${t.title}** — ${t.summary}`).join("\n")}`;
+  }
+  return `\n\n> **Key terms**\n>\n${terms.map((t) => `> - **${t.title}** — ${t.summary}`).join("\n")}`;
+}
+
+function htmlAppendix(style: AnnotationStyle, terms: AnnotatedTerm[]): string {
+  if (terms.length === 0 || style === "links") return "";
+  if (style === "footnotes") {
+    const items = terms.map((t, i) =>
+      `<li id="term-${i + 1}"><strong>${escapeHtml(t.title)}</strong> — ${escapeHtml(t.summary)} <a href="#term-ref-${i + 1}">↩</a></li>`);
+    return `\n<section class="footnotes">\n<ol>\n${items.join("\n")}\n</ol>\n</section>`;
+  }
+  const entries = terms.map((t) => `<dt>${escapeHtml(t.title)}</dt>\n<dd>${escapeHtml(t.summary)}</dd>`);
+  return `\n<aside class="key-terms">\n<h4>Key terms</h4>\n<dl>\n${entries.join("\n")}\n</dl>\n</aside>`;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Annotate the first occurrence of each glossary term in `text` (Markdown or
+ * plain copy) and list jargon the glossary doesn't cover. HTML output renders
+ * the copy's Markdown, escaping any raw HTML in it.
+ */
+export async function annotateText(
+  text: string,
+  style: AnnotationStyle = "footnotes",
+  format: AnnotationFormat = "markdown"
+): Promise<AnnotatedText> {
+  const glossary = await fetchGlossary();
+  const occurrences = findTermOccurrences(text, glossary.terms);
+
+  const terms: AnnotatedTerm[] = [];
+  const firsts: TermOccurrence[] = [];
+  for (const occurrence of occurrences) {
+    const existing = terms.find((t) => t.title === occurrence.term);
+    if (existing) {
+      existing.occurrences++;
+      continue;
+    }
+    const term = glossary.terms.find((t) => t.title === occurrence.term)!;
+    terms.push({ title: term.title, summary: term.summary, category: term.category, url: termUrl(term), occurrences: 1 });
+    firsts.push(occurrence);
+  }
+
+  // Splice annotations in from the end, so earlier offsets stay valid
+  let annotated = text;
+  const html: string[] = [];
+  for (let i = firsts.length - 1; i >= 0; i--) {
+    const occurrence = firsts[i];
+    const term = terms[i];
+    let replacement: string;
+    if (format === "html") {
+      html[i] = htmlAnnotation(style, occurrence, term, i + 1);
+      replacement = placeholder(i);
+    } else {
+      replacement = markdownAnnotation(style, occurrence, term, i + 1);
+    }
+    annotated = annotated.slice(0, occurrence.offset) + replacement + annotated.slice(occurrence.offset + occurrence.length);
+  }
+
+  const output = format === "html"
+    ? markdownToHtml(annotated).replace(/\u0001(\d+)\u0001/g, (_, index: string) => html[Number(index)]) + htmlAppendix(style, terms)
+    : annotated + markdownAppendix(style, terms);
+
+  return {
+    text: output,
+    style,
+    format,
+    terms,
+    occurrences,
+    unknownJargon: findUnknownJargon(text, glossary.terms, occurrences),
+  };
+}
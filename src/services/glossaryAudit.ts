@@ -0,0 +1,307 @@
+/**
+ * Glossary Audit
+ *
+ * Checks the Technical Glossary for gaps its owners should fix in Notion:
+ *   - database pages left out because they have no title or summary
+ *   - duplicate and near-duplicate titles (and aliases shared by two terms),
+ *     within and across the System Concepts and System Components databases
+ *   - terms with no tags or no owner, and summaries over a length budget
+ *   - tags written with different casing or punctuation ("Cross-network",
+ *     "cross network")
+ *   - jargon used in the Brand Bible that has no glossary entry (leaving out
+ *     wording its own Do / Don't rules discuss, and words the plain-language
+ *     dictionary keeps as they are)
+ *
+ * Every issue names the terms involved and, where there is one, the Notion
+ * page to fix, so the report reads as a to-do list.
+ */
+
+import { GLOSSARY_SYSTEM_COMPONENTS_URL, GLOSSARY_SYSTEM_CONCEPTS_URL } from "../constants.js";
+import type { CacheOrigin } from "./cacheManager.js";
+import { fetchBrandBible } from "./brandBible.js";
+import { extractBrandRules } from "./brandRules.js";
+import { fetchGlossary, getGlossaryCacheStatus } from "./glossary.js";
+import type { GlossaryTerm } from "./glossary.js";
+import { findTermOccurrences, findUnknownJargon, termUrl } from "./glossaryAnnotation.js";
+import { getPlainLanguageDictionary } from "./plainLanguage.js";
+import { normalizeTerm, similarity } from "./textMatching.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const AUDIT_ISSUE_KINDS = [
+  "dropped-page",
+  "duplicate-title",
+  "near-duplicate-title",
+  "missing-tags",
+  "long-summary",
+  "tag-casing",
+  "missing-owner",
+  "missing-term",
+] as const;
+export type AuditIssueKind = (typeof AUDIT_ISSUE_KINDS)[number];
+
+export type AuditSeverity = "error" | "warning" | "info";
+
+export interface AuditIssue {
+  kind: AuditIssueKind;
+  severity: AuditSeverity;
+  message: string;
+  /** Titles of the terms (or pages) involved */
+  terms: string[];
+  /** Notion page or database to fix it in */
+  url?: string;
+  /** Brand Bible sections and subsections a missing term is used in, e.g. "3.2 Color Palette" */
+  sources?: string[];
+}
+
+export interface GlossaryAudit {
+  checkedAt: string;
+  /** When the audited glossary was fetched */
+  lastUpdated: string;
+  /** Where the audited glossary came from; dropped pages are only known for Notion fetches */
+  origin: CacheOrigin | null;
+  termCount: number;
+  summaryBudget: number;
+  issues: AuditIssue[];
+  counts: Record<AuditIssueKind, number>;
+  summary: { errors: number; warnings: number; info: number };
+  /** Checks that couldn't run, and why */
+  notes: string[];
+}
+
+/** Default summary budget — a one-sentence summary should fit in a tweet-length line */
+export const DEFAULT_SUMMARY_BUDGET = 200;
+
+/** Titles at least this similar (0–1) are reported as near-duplicates */
+const NEAR_DUPLICATE_THRESHOLD = 0.85;
+
+const SEVERITY: Record<AuditIssueKind, AuditSeverity> = {
+  "dropped-page": "error",
+  "duplicate-title": "error",
+  "near-duplicate-title": "warning",
+  "missing-tags": "warning",
+  "long-summary": "warning",
+  "tag-casing": "warning",
+  "missing-owner": "info",
+  "missing-term": "info",
+};
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+type Finding = Omit<AuditIssue, "severity">;
+
+const categoryName = (term: GlossaryTerm) => (term.category === "system-concept" ? "System Concepts" : "System Components");
+
+/** Titles shared by several terms, and titles only an edit or two apart */
+function checkTitles(terms: GlossaryTerm[]): Finding[] {
+  const findings: Finding[] = [];
+
+  const byTitle = new Map<string, GlossaryTerm[]>();
+  for (const term of terms) {
+    const key = normalizeTerm(term.title);
+    byTitle.set(key, [...(byTitle.get(key) ?? []), term]);
+  }
+  for (const group of byTitle.values()) {
+    if (group.length < 2) continue;
+    const places = [...new Set(group.map(categoryName))].join(" and ");
+    findings.push({
+      kind: "duplicate-title",
+      message: `"${group[0].title}" is the title of ${group.length} pages in ${places} — merge them or rename one.`,
+      terms: group.map((t) => t.title),
+      url: termUrl(group[0]),
+    });
+  }
+
+  // One entry per distinct title, so exact duplicates aren't reported again
+  const distinct = [...byTitle.values()].map((group) => group[0]);
+  for (let i = 0; i < distinct.length; i++) {
+    for (let j = i + 1; j < distinct.length; j++) {
+      const [a, b] = [distinct[i], distinct[j]];
+      const score = similarity(a.title, b.title);
+      if (score < NEAR_DUPLICATE_THRESHOLD) continue;
+      findings.push({
+        kind: "near-duplicate-title",
+        message: `"${a.title}" (${categoryName(a)}) and "${b.title}" (${categoryName(b)}) are ${Math.round(score * 100)}% similar — merge them, or add a "Not to be confused with" relation.`,
+        terms: [a.title, b.title],
+        url: termUrl(a),
+      });
+    }
+  }
+
+  // An alias naming another term makes lookups of it ambiguous
+  for (const term of terms) {
+    for (const alias of term.aliases) {
+      const other = terms.find((t) => t !== term && [t.title, ...t.aliases].some((name) => normalizeTerm(name) === normalizeTerm(alias)));
+      // Report a shared alias once, from the first of the two terms
+      if (!other || (normalizeTerm(other.title) !== normalizeTerm(alias) && terms.indexOf(other) < terms.indexOf(term))) continue;
+      const clash = normalizeTerm(other.title) === normalizeTerm(alias) ? `the title of "${other.title}"` : `also an alias of "${other.title}"`;
+      findings.push({
+        kind: "near-duplicate-title",
+        message: `"${alias}", an alias of "${term.title}", is ${clash} — lookups of it are ambiguous.`,
+        terms: [term.title, other.title],
+        url: termUrl(term),
+      });
+    }
+  }
+
+  return findings;
+}
+
+/** Terms missing tags or an owner, and summaries over the budget */
+function checkTerms(terms: GlossaryTerm[], summaryBudget: number): Finding[] {
+  const findings: Finding[] = [];
+  for (const term of terms) {
+    const url = termUrl(term);
+    if (term.tags.length === 0) {
+      findings.push({ kind: "missing-tags", message: `"${term.title}" has no tags.`, terms: [term.title], url });
+    }
+    if (!term.owner) {
+      findings.push({ kind: "missing-owner", message: `"${term.title}" has no owner.`, terms: [term.title], url });
+    }
+    if (term.summary.length > summaryBudget) {
+      findings.push({
+        kind: "long-summary",
+        message: `"${term.title}" has a ${term.summary.length}-character summary (budget ${summaryBudget}) — trim it to one short sentence.`,
+        terms: [term.title],
+        url,
+      });
+    }
+  }
+  return findings;
+}
+
+/** Tags written more than one way, e.g. "cross-network" and "Cross Network" */
+function checkTagCasing(terms: GlossaryTerm[]): Finding[] {
+  const variants = new Map<string, Map<string, string[]>>();
+  for (const term of terms) {
+    for (const tag of term.tags) {
+      const key = normalizeTerm(tag);
+      const spellings = variants.get(key) ?? new Map<string, string[]>();
+      spellings.set(tag, [...(spellings.get(tag) ?? []), term.title]);
+      variants.set(key, spellings);
+    }
+  }
+
+  const findings: Finding[] = [];
+  for (const spellings of variants.values()) {
+    if (spellings.size < 2) continue;
+    // The most used spelling is the one to keep
+    const [preferred, ...others] = [...spellings.entries()].sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]));
+    const written = [preferred, ...others].map(([tag, titles]) => `"${tag}" (${titles.length})`).join(", ");
+    findings.push({
+      kind: "tag-casing",
+      message: `Tag written ${spellings.size} ways: ${written} — use "${preferred[0]}" throughout.`,
+      terms: [...new Set(others.flatMap(([, titles]) => titles))],
+    });
+  }
+  return findings;
+}
+
+/** "bridge" and "bridges" are one missing term */
+const jargonKey = (text: string) => normalizeTerm(text.replace(/(?<=\p{Ll}{3})s$/u, ""));
+
+/** Jargon the Brand Bible uses that the glossary doesn't define */
+async function checkBrandBibleTerms(terms: GlossaryTerm[]): Promise<Finding[]> {
+  const brandBible = await fetchBrandBible();
+
+  // Everyday words the guidelines prescribe or rule out ("Say networks, not chains", "Don't call SODAX a bridge"),
+  // and words the dictionary keeps unchanged, aren't glossary gaps; acronyms and camel-case names still are
+  const ordinary = new Set([
+    ...extractBrandRules(brandBible)
+      .map((rule) => [rule.text, ...rule.examples].join("\n"))
+      .flatMap((text) => findUnknownJargon(text, terms, findTermOccurrences(text, terms)))
+      .filter((jargon) => jargon.kind === "jargon")
+      .map((jargon) => jargonKey(jargon.text)),
+    ...getPlainLanguageDictionary()
+      .filter((entry) => entry.replacement === null)
+      .flatMap((entry) => [entry.term, ...(entry.variants ?? [])])
+      .map(jargonKey),
+  ]);
+
+  const found = new Map<string, { text: string; count: number; sources: string[]; related: string[]; plainLanguage?: string }>();
+
+  const blocks = brandBible.sections.flatMap((section) => [
+    { label: `${section.id}. ${section.title}`, content: section.content },
+    ...section.subsections.map((sub) => ({ label: `${sub.id} ${sub.title}`, content: sub.content })),
+  ]);
+  for (const block of blocks) {
+    for (const jargon of findUnknownJargon(block.content, terms, findTermOccurrences(block.content, terms))) {
+      const key = jargonKey(jargon.text);
+      if (ordinary.has(key)) continue;
+      const entry = found.get(key) ?? { text: jargon.text, count: 0, sources: [], related: jargon.related, plainLanguage: jargon.plainLanguage };
+      entry.count += jargon.count;
+      entry.sources.push(block.label);
+      found.set(key, entry);
+    }
+  }
+
+  return [...found.values()]
+    .sort((a, b) => b.count - a.count || a.text.localeCompare(b.text))
+    .map((entry) => {
+      const advice = entry.related.length > 0
+        ? `add it as an alias of ${entry.related.map((title) => `"${title}"`).join(", ")}`
+        : "add a glossary entry" + (entry.plainLanguage ? ` (plain language: "${entry.plainLanguage}")` : "");
+      return {
+        kind: "missing-term" as const,
+        message: `"${entry.text}" is used ${entry.count} time(s) in the Brand Bible but isn't in the glossary — ${advice}.`,
+        terms: [entry.text],
+        sources: entry.sources,
+      };
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Audit the glossary, most severe issues first */
+export async function auditGlossary(summaryBudget = DEFAULT_SUMMARY_BUDGET): Promise<GlossaryAudit> {
+  const glossary = await fetchGlossary();
+  const origin = getGlossaryCacheStatus().origin;
+  const notes: string[] = [];
+
+  const findings: Finding[] = (glossary.dropped ?? []).map((page) => ({
+    kind: "dropped-page",
+    message: `${page.title ? `"${page.title}"` : "An untitled page"} in ${page.category === "system-concept" ? "System Concepts" : "System Components"} is left out of the glossary: ${page.reason}.`,
+    terms: page.title ? [page.title] : [],
+    url: page.url,
+  }));
+  if (origin === "fallback") {
+    notes.push(`The glossary is the hardcoded fallback, not Notion — connect Notion (${GLOSSARY_SYSTEM_CONCEPTS_URL}, ${GLOSSARY_SYSTEM_COMPONENTS_URL}) to audit the real databases.`);
+  } else if (!glossary.dropped) {
+    notes.push("This copy of the glossary predates tracking of dropped pages — refresh it from Notion (or rebuild the snapshot) to check for them.");
+  }
+
+  findings.push(...checkTitles(glossary.terms), ...checkTerms(glossary.terms, summaryBudget), ...checkTagCasing(glossary.terms));
+
+  try {
+    findings.push(...(await checkBrandBibleTerms(glossary.terms)));
+  } catch (error) {
+    notes.push(`Brand Bible terms weren't checked: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const issues = findings
+    .map((finding): AuditIssue => ({ ...finding, severity: SEVERITY[finding.kind] }))
+    .sort((a, b) => AUDIT_ISSUE_KINDS.indexOf(a.kind) - AUDIT_ISSUE_KINDS.indexOf(b.kind));
+  const counts = Object.fromEntries(AUDIT_ISSUE_KINDS.map((kind) => [kind, issues.filter((i) => i.kind === kind).length])) as Record<AuditIssueKind, number>;
+
+  return {
+    checkedAt: new Date().toISOString(),
+    lastUpdated: glossary.lastUpdated.toISOString(),
+    origin,
+    termCount: glossary.terms.length,
+    summaryBudget,
+    issues,
+    counts,
+    summary: {
+      errors: issues.filter((i) => i.severity === "error").length,
+      warnings: issues.filter((i) => i.severity === "warning").length,
+      info: issues.filter((i) => i.severity === "info").length,
+    },
+    notes,
+  };
+}
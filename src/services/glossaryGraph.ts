@@ -0,0 +1,315 @@
+/**
+ * Glossary Graph
+ *
+ * A weighted graph of how glossary terms relate, rebuilt whenever the
+ * glossary is refreshed. Edges come from:
+ *   - explicit Notion relation properties ("Related to", "Part of")
+ *   - one term's summary mentioning another by title or alias
+ *   - shared tags, weighted by how rare the tag is (a tag on every term
+ *     says nothing; one shared by two terms says a lot)
+ *
+ * Supports neighbourhood and shortest-path queries, and export as Mermaid or
+ * Graphviz DOT for "how SODAX fits together" diagrams.
+ */
+
+import { BRAND_COLORS } from "../constants.js";
+import { fetchGlossary } from "./glossary.js";
+import type { GlossaryData, GlossaryTerm } from "./glossary.js";
+import { findTermOccurrences } from "./glossaryAnnotation.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type GraphEdgeKind = "relation" | "mention" | "tag";
+
+export interface GraphEdgeReason {
+  kind: GraphEdgeKind;
+  /** Relation property (both sides' for a two-way relation, "Related / Related to"), "mentions", or the shared tag */
+  label: string;
+  weight: number;
+  /** Direction for mentions and one-way relations; tags and two-way relations are undirected */
+  from?: string;
+  to?: string;
+}
+
+export interface GraphEdge {
+  /** Term titles; `source` → `target` follows the strongest directed reason */
+  source: string;
+  target: string;
+  weight: number;
+  directed: boolean;
+  reasons: GraphEdgeReason[];
+}
+
+export interface GraphNode {
+  title: string;
+  category: GlossaryTerm["category"];
+  degree: number;
+}
+
+export interface GlossaryGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface GraphNeighbour {
+  term: string;
+  /** Hops from the focus term */
+  distance: number;
+  /** Weight of the edge that reached it */
+  weight: number;
+  reasons: GraphEdgeReason[];
+}
+
+export interface GraphPath {
+  terms: string[];
+  edges: GraphEdge[];
+  /** Sum of 1/weight over the path — lower is a closer connection */
+  cost: number;
+}
+
+// ---------------------------------------------------------------------------
+// Building
+// ---------------------------------------------------------------------------
+
+/** An explicit relation in Notion outweighs any inferred connection */
+const RELATION_WEIGHT = 3;
+const MENTION_WEIGHT = 2;
+
+const graphs = new WeakMap<GlossaryData, GlossaryGraph>();
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`);
+
+/** Build the graph for a glossary version (memoized per fetched copy) */
+export function buildGlossaryGraph(glossary: GlossaryData): GlossaryGraph {
+  const cached = graphs.get(glossary);
+  if (cached) return cached;
+
+  const terms = glossary.terms;
+  const edges = new Map<string, GraphEdge>();
+  const addReason = (a: string, b: string, reason: GraphEdgeReason) => {
+    if (a === b) return;
+    const key = pairKey(a, b);
+    const edge = edges.get(key) ?? { source: a, target: b, weight: 0, directed: false, reasons: [] };
+    // A relation recorded on both pages (Notion's two-way relations) counts once, without a direction —
+    // each side usually names its property differently ("Related", "Related to Solver")
+    const twin = reason.kind === "relation"
+      ? edge.reasons.find((r) => r.kind === "relation" && r.from !== undefined && r.from === reason.to)
+      : undefined;
+    if (twin) {
+      if (twin.label !== reason.label) twin.label = `${twin.label} / ${reason.label}`;
+      delete twin.from;
+      delete twin.to;
+      return;
+    }
+    if (edge.reasons.some((r) => r.kind === reason.kind && r.label === reason.label && r.from === reason.from)) return;
+    edge.reasons.push(reason);
+    edge.weight += reason.weight;
+    edges.set(key, edge);
+  };
+
+  // Explicit relations
+  const byPageId = new Map(terms.filter((t) => t.id).map((t) => [t.id!.replace(/-/g, ""), t.title]));
+  for (const term of terms) {
+    for (const { property, pageIds } of term.relatedPages ?? []) {
+      for (const pageId of pageIds) {
+        const other = byPageId.get(pageId.replace(/-/g, ""));
+        if (other) addReason(term.title, other, { kind: "relation", label: property, weight: RELATION_WEIGHT, from: term.title, to: other });
+      }
+    }
+  }
+
+  // Mentions of one term in another's summary
+  for (const term of terms) {
+    for (const mentioned of new Set(findTermOccurrences(term.summary, terms).map((o) => o.term))) {
+      addReason(term.title, mentioned, { kind: "mention", label: "mentions", weight: MENTION_WEIGHT, from: term.title, to: mentioned });
+    }
+  }
+
+  // Shared tags, weighted by inverse document frequency
+  const tagged = new Map<string, string[]>();
+  for (const term of terms) {
+    for (const tag of new Set(term.tags.map((t) => t.toLowerCase()))) tagged.set(tag, [...(tagged.get(tag) ?? []), term.title]);
+  }
+  for (const [tag, titles] of tagged) {
+    const weight = Math.log(terms.length / titles.length);
+    if (weight <= 0) continue;
+    for (let i = 0; i < titles.length; i++) {
+      for (let j = i + 1; j < titles.length; j++) addReason(titles[i], titles[j], { kind: "tag", label: tag, weight });
+    }
+  }
+
+  // Orient each edge along its strongest directed reason
+  for (const edge of edges.values()) {
+    edge.weight = round(edge.weight);
+    for (const reason of edge.reasons) reason.weight = round(reason.weight);
+    edge.reasons.sort((a, b) => b.weight - a.weight);
+    const directed = edge.reasons.find((r) => r.from);
+    if (directed) Object.assign(edge, { source: directed.from, target: directed.to, directed: true });
+  }
+
+  const edgeList = [...edges.values()].sort((a, b) => b.weight - a.weight);
+  const nodes = terms.map((t) => ({
+    title: t.title,
+    category: t.category,
+    degree: edgeList.filter((e) => e.source === t.title || e.target === t.title).length,
+  }));
+
+  const graph = { nodes, edges: edgeList };
+  graphs.set(glossary, graph);
+  return graph;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+function adjacency(graph: GlossaryGraph, minWeight: number): Map<string, { other: string; edge: GraphEdge }[]> {
+  const adjacent = new Map<string, { other: string; edge: GraphEdge }[]>(graph.nodes.map((n) => [n.title, []]));
+  for (const edge of graph.edges) {
+    if (edge.weight < minWeight) continue;
+    adjacent.get(edge.source)?.push({ other: edge.target, edge });
+    adjacent.get(edge.target)?.push({ other: edge.source, edge });
+  }
+  return adjacent;
+}
+
+/** Terms within `depth` hops of a term, nearest and strongest first */
+export function neighbours(graph: GlossaryGraph, title: string, depth = 1, minWeight = 0): GraphNeighbour[] {
+  const adjacent = adjacency(graph, minWeight);
+  const found = new Map<string, GraphNeighbour>();
+  let frontier = [title];
+
+  for (let distance = 1; distance <= depth && frontier.length > 0; distance++) {
+    const next: string[] = [];
+    for (const current of frontier) {
+      for (const { other, edge } of adjacent.get(current) ?? []) {
+        if (other === title || found.has(other)) continue;
+        found.set(other, { term: other, distance, weight: edge.weight, reasons: edge.reasons });
+        next.push(other);
+      }
+    }
+    frontier = next;
+  }
+
+  return [...found.values()].sort((a, b) => a.distance - b.distance || b.weight - a.weight);
+}
+
+/** The closest connection between two terms (Dijkstra, cost 1/weight per edge), or null if unconnected */
+export function shortestPath(graph: GlossaryGraph, from: string, to: string, minWeight = 0): GraphPath | null {
+  const adjacent = adjacency(graph, minWeight);
+  const cost = new Map<string, number>([[from, 0]]);
+  const previous = new Map<string, { node: string; edge: GraphEdge }>();
+  const unvisited = new Set(adjacent.keys());
+
+  while (unvisited.size > 0) {
+    let current: string | null = null;
+    for (const node of unvisited) {
+      if (cost.has(node) && (current === null || cost.get(node)! < cost.get(current)!)) current = node;
+    }
+    if (current === null || current === to) break;
+    unvisited.delete(current);
+
+    for (const { other, edge } of adjacent.get(current) ?? []) {
+      const candidate = cost.get(current)! + 1 / edge.weight;
+      if (candidate < (cost.get(other) ?? Infinity)) {
+        cost.set(other, candidate);
+        previous.set(other, { node: current, edge });
+      }
+    }
+  }
+
+  if (!cost.has(to)) return null;
+  const terms = [to];
+  const edges: GraphEdge[] = [];
+  while (terms[0] !== from) {
+    const step = previous.get(terms[0])!;
+    edges.unshift(step.edge);
+    terms.unshift(step.node);
+  }
+  return { terms, edges, cost: round(cost.get(to)!) };
+}
+
+/** The part of the graph spanning the given terms, with edges among them */
+export function subgraph(graph: GlossaryGraph, titles: string[], minWeight = 0): GlossaryGraph {
+  const keep = new Set(titles);
+  return {
+    nodes: graph.nodes.filter((n) => keep.has(n.title)),
+    edges: graph.edges.filter((e) => e.weight >= minWeight && keep.has(e.source) && keep.has(e.target)),
+  };
+}
+
+/** Terms related to a term, strongest first (used for "related terms" lists) */
+export async function getRelatedTerms(title: string, limit = 5): Promise<string[]> {
+  const graph = buildGlossaryGraph(await fetchGlossary());
+  return neighbours(graph, title).slice(0, limit).map((n) => n.term);
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/** Short edge label: the relation or "mentions", else the strongest shared tags */
+function edgeLabel(edge: GraphEdge): string {
+  const directed = edge.reasons.find((r) => r.kind !== "tag");
+  if (directed) return directed.label;
+  return edge.reasons.slice(0, 2).map((r) => r.label).join(", ");
+}
+
+/** Mermaid flowchart; directed edges are arrows, tag-only edges plain lines, thicker when strong */
+export function toMermaid(graph: GlossaryGraph, highlight: string[] = []): string {
+  const ids = new Map(graph.nodes.map((n, i) => [n.title, `t${i}`]));
+  const quote = (text: string) => text.replace(/"/g, "#quot;");
+  const lines = ["flowchart LR"];
+
+  for (const node of graph.nodes) {
+    const id = ids.get(node.title)!;
+    lines.push(node.category === "system-concept" ? `  ${id}(["${quote(node.title)}"])` : `  ${id}["${quote(node.title)}"]`);
+  }
+  for (const edge of graph.edges) {
+    const strong = edge.weight >= RELATION_WEIGHT;
+    const arrow = edge.directed ? (strong ? "==>" : "-->") : strong ? "===" : "---";
+    lines.push(`  ${ids.get(edge.source)} ${arrow}|"${quote(edgeLabel(edge))}"| ${ids.get(edge.target)}`);
+  }
+  lines.push(`  classDef concept fill:${BRAND_COLORS.cream},stroke:${BRAND_COLORS.cherry}`);
+  lines.push(`  classDef component fill:#ffffff,stroke:${BRAND_COLORS.espresso}`);
+  const byCategory = (category: GlossaryTerm["category"]) =>
+    graph.nodes.filter((n) => n.category === category).map((n) => ids.get(n.title)).join(",");
+  if (byCategory("system-concept")) lines.push(`  class ${byCategory("system-concept")} concept`);
+  if (byCategory("system-component")) lines.push(`  class ${byCategory("system-component")} component`);
+  const highlighted = highlight.filter((t) => ids.has(t)).map((t) => ids.get(t));
+  if (highlighted.length > 0) lines.push(`  style ${highlighted.join(",")} stroke-width:3px`);
+
+  return lines.join("\n");
+}
+
+/** Graphviz DOT; pen width follows edge weight */
+export function toDot(graph: GlossaryGraph, highlight: string[] = []): string {
+  const quote = (text: string) => `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+  const lines = [
+    "digraph sodax_glossary {",
+    "  rankdir=LR;",
+    `  node [fontname="Helvetica", style=filled, fillcolor="#ffffff", color="${BRAND_COLORS.espresso}"];`,
+    `  edge [fontname="Helvetica", fontsize=10, color="${BRAND_COLORS.espresso}"];`,
+  ];
+  for (const node of graph.nodes) {
+    const attributes = [
+      node.category === "system-concept" ? `shape=ellipse, fillcolor="${BRAND_COLORS.cream}", color="${BRAND_COLORS.cherry}"` : "shape=box",
+      highlight.includes(node.title) ? "penwidth=3" : "",
+    ].filter(Boolean);
+    lines.push(`  ${quote(node.title)} [${attributes.join(", ")}];`);
+  }
+  for (const edge of graph.edges) {
+    const attributes = [
+      `label=${quote(edgeLabel(edge))}`,
+      `penwidth=${Math.min(6, 0.5 + edge.weight).toFixed(1)}`,
+      edge.directed ? "" : "dir=none",
+    ].filter(Boolean);
+    lines.push(`  ${quote(edge.source)} -> ${quote(edge.target)} [${attributes.join(", ")}];`);
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
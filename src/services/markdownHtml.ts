@@ -0,0 +1,240 @@
+/**
+ * Markdown → HTML Renderer
+ *
+ * Renders the Markdown produced by notionMarkdown.ts back to HTML for
+ * documents: headings, paragraphs, nested and numbered lists, to-dos,
+ * toggles, quotes and callouts, code and equation blocks, tables, images
+ * with captions, and inline bold, italic, strikethrough, code and links.
+ * Raw HTML in the source is escaped, never passed through.
+ */
+
+export interface MarkdownHtmlOptions {
+  /** Added to every heading level, so "# Title" inside a section can render as <h3> */
+  headingOffset?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Inline
+// ---------------------------------------------------------------------------
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** Only links a reader can safely follow */
+function safeUrl(url: string): string | null {
+  return /^(?:https?:|mailto:|#|\/)/i.test(url) ? url : null;
+}
+
+/** Render inline Markdown (on already-trimmed text) to HTML */
+export function inlineToHtml(text: string): string {
+  // Code spans and equations first, so their contents aren't formatted
+  const protectedSpans: string[] = [];
+  const protect = (html: string) => `\u0000${protectedSpans.push(html) - 1}\u0000`;
+
+  let html = escapeHtml(text)
+    .replace(/`([^`]+)`/g, (_, code: string) => protect(`<code>${code}</code>`))
+    .replace(/(^|[^$\w])\$([^$\n]+)\$(?![$\w])/g, (_, before: string, math: string) => before + protect(`<span class="math">${math}</span>`));
+
+  html = html
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (match, alt: string, url: string) =>
+      safeUrl(url) ? protect(`<img src="${url}" alt="${alt}">`) : match)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, label: string, url: string) =>
+      safeUrl(url) ? `<a href="${url}">${label}</a>` : match)
+    .replace(/&lt;(https?:\/\/[^\s&]+)&gt;/g, (_, url: string) => `<a href="${url}">${url}</a>`)
+    .replace(/\*\*(?=\S)(.+?)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|[^\w*])([_*])(?=\S)(.+?)\2(?![\w*])/g, "$1<em>$3</em>")
+    .replace(/~~(?=\S)(.+?)~~/g, "<del>$1</del>");
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => protectedSpans[Number(index)]);
+}
+
+// ---------------------------------------------------------------------------
+// Blocks
+// ---------------------------------------------------------------------------
+
+const LIST_ITEM = /^(\s*)([-*]|\d+\.)\s+(.*)$/;
+const TABLE_DIVIDER = /^\|(?:\s*:?-+:?\s*\|)+\s*$/;
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].length;
+
+/**
+ * Lines after `start` that belong to the block at `start`: indented deeper
+ * than `baseIndent`, or blank lines followed by such lines.
+ */
+function collectIndented(lines: string[], start: number, baseIndent: number): number {
+  let end = start;
+  for (let i = start; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    if (indentOf(lines[i]) <= baseIndent) break;
+    end = i + 1;
+  }
+  return end;
+}
+
+function dedent(lines: string[], width: number): string[] {
+  return lines.map((line) => line.slice(Math.min(width, indentOf(line))));
+}
+
+function splitRow(row: string): string[] {
+  return row
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+function renderCell(cell: string, tag: "th" | "td"): string {
+  return `<${tag}>${cell.split("<br>").map(inlineToHtml).join("<br>")}</${tag}>`;
+}
+
+function renderTable(rows: string[]): string {
+  const [header, , ...body] = rows;
+  let html = `<table>\n<thead><tr>${splitRow(header).map((c) => renderCell(c, "th")).join("")}</tr></thead>\n<tbody>\n`;
+  for (const row of body) {
+    html += `<tr>${splitRow(row).map((c) => renderCell(c, "td")).join("")}</tr>\n`;
+  }
+  return html + `</tbody>\n</table>`;
+}
+
+function renderListItem(text: string, nested: string[], options: MarkdownHtmlOptions): string {
+  const todo = text.match(/^\[([ x])\]\s+(.*)$/);
+  const body = todo
+    ? `<input type="checkbox" disabled${todo[1] === "x" ? " checked" : ""}> ${inlineToHtml(todo[2])}`
+    : inlineToHtml(text);
+  const children = nested.some((line) => line.trim()) ? `\n${renderBlocks(nested, options)}\n` : "";
+  return `<li${todo ? ' class="todo"' : ""}>${body}${children}</li>`;
+}
+
+function renderBlocks(lines: string[], options: MarkdownHtmlOptions): string {
+  const blocks: string[] = [];
+  const offset = options.headingOffset ?? 0;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      i++;
+      continue;
+    }
+
+    // Fenced code
+    if (trimmed.startsWith("```")) {
+      const language = trimmed.slice(3).trim();
+      const end = lines.findIndex((l, j) => j > i && l.trim() === "```");
+      const close = end === -1 ? lines.length : end;
+      const code = escapeHtml(lines.slice(i + 1, close).join("\n"));
+      blocks.push(`<pre><code${language ? ` class="language-${escapeHtml(language)}"` : ""}>${code}</code></pre>`);
+      i = close + 1;
+      continue;
+    }
+
+    // Block equation
+    if (trimmed === "$$") {
+      const end = lines.findIndex((l, j) => j > i && l.trim() === "$$");
+      const close = end === -1 ? lines.length : end;
+      blocks.push(`<pre class="math">${escapeHtml(lines.slice(i + 1, close).join("\n"))}</pre>`);
+      i = close + 1;
+      continue;
+    }
+
+    const heading = trimmed.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      const level = Math.min(6, heading[1].length + offset);
+      blocks.push(`<h${level}>${inlineToHtml(heading[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (/^-{3,}$/.test(trimmed)) {
+      blocks.push("<hr>");
+      i++;
+      continue;
+    }
+
+    // Quotes and callouts — Notion leaves blank lines inside them unprefixed
+    if (trimmed.startsWith(">")) {
+      const quoted: string[] = [];
+      while (i < lines.length) {
+        const current = lines[i].trim();
+        if (current.startsWith(">")) quoted.push(current.replace(/^>\s?/, ""));
+        else if (!current && lines[i + 1]?.trim().startsWith(">")) quoted.push("");
+        else break;
+        i++;
+      }
+      blocks.push(`<blockquote>\n${renderBlocks(quoted, options)}\n</blockquote>`);
+      continue;
+    }
+
+    if (trimmed.startsWith("|") && TABLE_DIVIDER.test(lines[i + 1]?.trim() ?? "")) {
+      const rows: string[] = [];
+      while (i < lines.length && lines[i].trim().startsWith("|")) rows.push(lines[i++]);
+      blocks.push(renderTable(rows));
+      continue;
+    }
+
+    // Toggles are printed open
+    if (trimmed.startsWith("▸ ")) {
+      const end = collectIndented(lines, i + 1, indentOf(line));
+      const children = dedent(lines.slice(i + 1, end), indentOf(line) + 2);
+      blocks.push(
+        `<details open>\n<summary>${inlineToHtml(trimmed.slice(2))}</summary>\n${renderBlocks(children, options)}\n</details>`
+      );
+      i = end;
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      const baseIndent = listItem[1].length;
+      const ordered = /\d/.test(listItem[2]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM);
+        if (!item || item[1].length !== baseIndent || /\d/.test(item[2]) !== ordered) break;
+        const end = collectIndented(lines, i + 1, baseIndent);
+        const nested = dedent(lines.slice(i + 1, end), baseIndent + item[2].length + 1);
+        items.push(renderListItem(item[3], nested, options));
+        i = end;
+        // A blank line between items of one list doesn't end it
+        while (i < lines.length && !lines[i].trim() && lines[i + 1]?.match(LIST_ITEM)?.[1].length === baseIndent) i++;
+      }
+      const start = ordered ? parseInt(listItem[2], 10) : 1;
+      const tag = ordered ? "ol" : "ul";
+      blocks.push(`<${tag}${ordered && start !== 1 ? ` start="${start}"` : ""}>\n${items.join("\n")}\n</${tag}>`);
+      continue;
+    }
+
+    // Image with an optional caption line beneath it
+    const image = trimmed.match(/^!\[([^\]]*)\]\(([^)\s]+)\)$/);
+    if (image && safeUrl(image[2])) {
+      const caption = lines[i + 1]?.trim().match(/^\*(.+)\*$/);
+      blocks.push(
+        `<figure><img src="${escapeHtml(image[2])}" alt="${escapeHtml(image[1])}">` +
+          (caption ? `<figcaption>${inlineToHtml(caption[1])}</figcaption>` : "") +
+          `</figure>`
+      );
+      i += caption ? 2 : 1;
+      continue;
+    }
+
+    // Paragraph: consecutive lines up to the next blank line or block
+    const paragraph: string[] = [];
+    while (i < lines.length) {
+      const current = lines[i].trim();
+      if (!current || (paragraph.length > 0 && /^(?:#{1,6}\s|```|>|\||[-*]\s|\d+\.\s|▸ |\$\$$)/.test(current))) break;
+      paragraph.push(inlineToHtml(current));
+      i++;
+    }
+    blocks.push(`<p>${paragraph.join("<br>\n")}</p>`);
+  }
+
+  return blocks.join("\n");
+}
+
+/** Render a Markdown document to an HTML fragment */
+export function markdownToHtml(markdown: string, options: MarkdownHtmlOptions = {}): string {
+  return renderBlocks(markdown.replace(/\r\n/g, "\n").split("\n"), options);
+}
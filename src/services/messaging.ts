@@ -0,0 +1,335 @@
+/**
+ * Messaging Framework Service
+ *
+ * Extracts the structure of the Brand Bible's Messaging Framework section —
+ * positioning statement, taglines, value propositions, proof points and key
+ * messages — from its subsections and headings, so approved wording can be
+ * quoted verbatim instead of paraphrased from a block of text.
+ *
+ * Statements under an audience or product heading ("For Developers",
+ * "Value Propositions: Cross-chain Swaps"), in a table row or behind a bold
+ * label ("**Developers:** …") are tagged with it. A toggle ("▸ Taglines")
+ * works like a heading for the content nested inside it.
+ */
+
+import type { BrandSection } from "../types.js";
+import { fetchBrandBible } from "./brandBible.js";
+import { normalizeTerm } from "./textMatching.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const MESSAGING_FIELDS = ["positioning", "taglines", "valuePropositions", "proofPoints", "keyMessages"] as const;
+export type MessagingField = (typeof MESSAGING_FIELDS)[number];
+
+export interface MessagingStatement {
+  /** Wording as written in the Brand Bible, with Markdown formatting removed */
+  text: string;
+  /** Heading of a key message or pillar, e.g. "Simplicity" */
+  title?: string;
+  audience?: string;
+  product?: string;
+  /** Where it is stated, e.g. "4.2 Value Propositions" */
+  source: string;
+}
+
+export interface MessagingFramework {
+  section: { id: string; slug: string; title: string };
+  positioningStatement: MessagingStatement | null;
+  taglines: MessagingStatement[];
+  valuePropositions: MessagingStatement[];
+  proofPoints: MessagingStatement[];
+  keyMessages: MessagingStatement[];
+  /** Audiences and products statements are tagged with */
+  audiences: string[];
+  products: string[];
+}
+
+export interface MessagingFilter {
+  audience?: string;
+  product?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Classification
+// ---------------------------------------------------------------------------
+
+const FIELD_PATTERNS: [MessagingField, RegExp][] = [
+  ["positioning", /positioning|brand promise|mission statement|who we are/i],
+  ["taglines", /tag ?lines?|slogans?|straplines?/i],
+  ["valuePropositions", /value prop/i],
+  ["proofPoints", /proof|evidence|reasons? to believe|\brtbs?\b|why (?:trust|believe)/i],
+  ["keyMessages", /key messag|core messag|messaging pillars?|message pillars?|pillars|message house/i],
+];
+
+/** Headings naming who a statement is for, rather than what it is about */
+const AUDIENCE_PATTERN =
+  /\b(?:audiences?|users?|developers?|devs|builders?|partners?|institutions?|institutional|traders?|investors?|holders?|community|communities|creators?|enterprises?|businesses|protocols|wallets|dapps|retail|press|media|ecosystem|teams?)\b/i;
+
+/** Headings naming a SODAX product or feature */
+const PRODUCT_PATTERN =
+  /\b(?:swaps?|swapping|money markets?|lending|borrowing|bridges?|bridging|staking|vaults?|savings|yield|sdks?|apis?|widgets?|solver|intents?|extension|app|tokens?)\b/i;
+
+/** Headings that organise a field rather than qualify it */
+const GENERIC_HEADING = /^(?:examples?|notes?|usage|guidance|overview|summary|details|variants?|alternatives?)$/i;
+
+/** Headings introducing wording not to use — nothing under them is approved messaging */
+const AVOID_HEADING = /\b(?:avoid|don'?ts?|do not|never|incorrect|wrong|retired|deprecated)\b/i;
+
+function fieldFor(heading: string): MessagingField | null {
+  return FIELD_PATTERNS.find(([, pattern]) => pattern.test(heading))?.[0] ?? null;
+}
+
+/**
+ * Audience or product a heading or label names, e.g. "For Developers" →
+ * audience "Developers". Only labels naming a known audience or product, or
+ * written "For X", "Audience: X" or after a field name ("Value Propositions:
+ * X") qualify; any other heading ("Messaging Details") leaves statements
+ * untagged.
+ */
+function qualifierFor(label: string): Pick<MessagingStatement, "audience" | "product"> {
+  let text = plainText(label).replace(/[:：]\s*$/, "").trim();
+  // "Value Propositions — Developers": the part after the field name
+  const separated = text.match(/^(.+?)\s*(?:[:—–|]|\s-\s)\s*(.+)$/);
+  const afterField = !!separated && !!fieldFor(separated[1]);
+  if (afterField) text = separated![2];
+  if (!text || fieldFor(text) || GENERIC_HEADING.test(text)) return {};
+
+  const explicit = text.match(/^(audience|product)\s*[:—–-]\s*(.+)$/i);
+  if (explicit) return explicit[1].toLowerCase() === "audience" ? { audience: explicit[2] } : { product: explicit[2] };
+
+  const forWhom = text.match(/^for\s+(.+)$/i);
+  if (forWhom) text = forWhom[1];
+  if (AUDIENCE_PATTERN.test(text)) return { audience: text };
+  return forWhom || afterField || PRODUCT_PATTERN.test(text) ? { product: text } : {};
+}
+
+/** Strip Markdown formatting, keeping the wording itself */
+function plainText(markdown: string): string {
+  return markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/(^|[^\w])_(.+?)_(?!\w)/g, "$1$2")
+    .replace(/(^|[^\w*])\*(.+?)\*(?![\w*])/g, "$1$2")
+    .replace(/~~(.+?)~~/g, "$1")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+interface Context {
+  field: MessagingField | null;
+  title?: string;
+  audience?: string;
+  product?: string;
+  source: string;
+}
+
+interface Extracted extends MessagingStatement {
+  field: MessagingField;
+  /** Written as a quote or callout — preferred for the positioning statement */
+  quoted: boolean;
+}
+
+const BOLD_HEADING = /^\*\*([^*]+)\*\*:?$/;
+const MARKDOWN_HEADING = /^#{1,6}\s+(.+)$/;
+const LIST_ITEM = /^\s*(?:[-*]|\d+\.)\s+(?:\[[ x]\]\s+)?(.+)$/;
+const TOGGLE = /^(\s*)▸\s+(.+)$/;
+const BOLD_LABEL = /^\*\*([^*]{1,40}?):?\*\*:?\s+(.+)$/;
+
+function splitRow(row: string): string[] {
+  return row.trim().replace(/^\||\|$/g, "").split(/(?<!\\)\|/).map((cell) => cell.trim());
+}
+
+/** Statements in one block of content, under the headings that precede them */
+function extractStatements(content: string, base: Context): Extracted[] {
+  const statements: Extracted[] = [];
+  let context = { ...base };
+  let paragraph: string[] = [];
+  let quote: string[] = [];
+  let tableHeader: string[] | null = null;
+  // Open toggles, with the context to return to when their indented children end
+  const toggles: { indent: number; context: Context }[] = [];
+
+  const push = (raw: string, quoted: boolean, overrides: Partial<Context> = {}) => {
+    const labelled = raw.match(BOLD_LABEL);
+    const qualifier = labelled ? qualifierFor(labelled[1]) : {};
+    const text = plainText(labelled && (qualifier.audience || qualifier.product) ? labelled[2] : raw);
+    const field = overrides.field ?? context.field;
+    if (!text || !field) return;
+    statements.push({
+      field,
+      text,
+      title: context.title,
+      audience: qualifier.audience ?? overrides.audience ?? context.audience,
+      product: qualifier.product ?? overrides.product ?? context.product,
+      source: context.source,
+      quoted,
+    });
+  };
+  const flush = () => {
+    if (paragraph.length > 0) push(paragraph.join(" "), false);
+    if (quote.length > 0) push(quote.join(" "), true);
+    paragraph = [];
+    quote = [];
+  };
+
+  for (const line of content.split("\n")) {
+    const trimmed = line.trim();
+
+    // A line back at a toggle's indent ends its children
+    const indent = line.length - line.trimStart().length;
+    if (trimmed && toggles.length > 0 && indent <= toggles[toggles.length - 1].indent) {
+      flush();
+      tableHeader = null;
+      while (toggles.length > 0 && indent <= toggles[toggles.length - 1].indent) context = toggles.pop()!.context;
+    }
+
+    // A toggle is a heading for the lines indented beneath it
+    const toggle = line.match(TOGGLE);
+    if (toggle) toggles.push({ indent: toggle[1].length, context });
+    const heading = toggle?.[2] ?? trimmed.match(MARKDOWN_HEADING)?.[1] ?? trimmed.match(BOLD_HEADING)?.[1];
+
+    if (!trimmed || heading) {
+      flush();
+      tableHeader = null;
+      if (heading) {
+        // A field heading switches field; any other heading names an audience or product within it
+        const field = fieldFor(heading);
+        if (AVOID_HEADING.test(heading)) context = { ...base, field: null };
+        else if (field) context = { ...base, field, ...qualifierFor(heading) };
+        else if (context.field === "keyMessages" && !AUDIENCE_PATTERN.test(heading) && !/^product\b/i.test(heading)) {
+          // Headings within key messages name the message (a pillar), not a product
+          context = { ...context, title: plainText(heading).replace(/[:：]\s*$/, "") };
+        } else context = { ...context, audience: base.audience, product: base.product, ...qualifierFor(heading) };
+      }
+      continue;
+    }
+
+    if (trimmed.startsWith(">")) {
+      if (paragraph.length > 0) flush();
+      const text = trimmed.replace(/^>\s?/, "");
+      if (text) quote.push(text);
+      continue;
+    }
+
+    if (trimmed.startsWith("|")) {
+      flush();
+      const cells = splitRow(trimmed);
+      if (cells.every((cell) => /^:?-+:?$/.test(cell))) continue;
+      if (!tableHeader) {
+        tableHeader = cells;
+        continue;
+      }
+      // First column names the audience or product, the last holds the statement
+      if (cells.length >= 2) {
+        const label = cells[0].replace(/\\\|/g, "|");
+        const column = tableHeader[0] ?? "";
+        const qualifier = /audience|persona|segment/i.test(column)
+          ? { audience: plainText(label) }
+          : /product|feature|offering/i.test(column) ? { product: plainText(label) } : qualifierFor(label);
+        push(cells[cells.length - 1].replace(/\\\|/g, "|").replace(/<br>/g, " "), false, {
+          field: fieldFor(tableHeader[tableHeader.length - 1]) ?? undefined,
+          ...qualifier,
+        });
+      }
+      continue;
+    }
+
+    const item = trimmed.match(LIST_ITEM);
+    if (item) {
+      flush();
+      push(item[1], false);
+      continue;
+    }
+
+    if (quote.length > 0) flush();
+    paragraph.push(trimmed);
+  }
+  flush();
+
+  return statements;
+}
+
+/** The Messaging Framework section of the Brand Bible */
+function findMessagingSection(sections: BrandSection[]): BrandSection | null {
+  return sections.find((s) => /messaging/i.test(s.title)) ?? null;
+}
+
+/** Parse a Messaging Framework section into typed fields */
+export function parseMessagingFramework(section: BrandSection): MessagingFramework {
+  const statements = extractStatements(section.content, {
+    field: fieldFor(section.title.replace(/messaging framework/i, "")),
+    source: `${section.id}. ${section.title}`,
+  });
+  for (const sub of section.subsections) {
+    statements.push(...extractStatements(sub.content, {
+      field: fieldFor(sub.title),
+      ...qualifierFor(sub.title),
+      source: `${sub.id} ${sub.title}`,
+    }));
+  }
+
+  const toStatement = ({ field: _field, quoted: _quoted, ...statement }: Extracted): MessagingStatement => statement;
+  const byField = (field: MessagingField) => statements.filter((s) => s.field === field).map(toStatement);
+  const positioning = statements.filter((s) => s.field === "positioning");
+  const preferred = positioning.find((s) => s.quoted) ?? positioning[0];
+  const unique = (values: (string | undefined)[]) => [...new Set(values.filter((v): v is string => !!v))];
+
+  return {
+    section: { id: section.id, slug: section.slug, title: section.title },
+    positioningStatement: preferred ? toStatement(preferred) : null,
+    taglines: byField("taglines"),
+    valuePropositions: byField("valuePropositions"),
+    proofPoints: byField("proofPoints"),
+    keyMessages: byField("keyMessages"),
+    audiences: unique(statements.map((s) => s.audience)),
+    products: unique(statements.map((s) => s.product)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+function matches(value: string | undefined, filter: string | undefined): boolean {
+  // Untagged statements apply to every audience and product
+  if (!filter || !value) return true;
+  const a = normalizeTerm(value);
+  const b = normalizeTerm(filter);
+  return a.includes(b) || b.includes(a);
+}
+
+/**
+ * The Messaging Framework as typed fields, narrowed to statements for an
+ * audience or product (plus untagged ones, which apply to all). Returns null
+ * if the Brand Bible has no Messaging Framework section.
+ */
+export async function getMessagingFramework(filter: MessagingFilter = {}): Promise<MessagingFramework | null> {
+  const brandBible = await fetchBrandBible();
+  const section = findMessagingSection(brandBible.sections);
+  if (!section) return null;
+
+  const framework = parseMessagingFramework(section);
+  const keep = (s: MessagingStatement) => matches(s.audience, filter.audience) && matches(s.product, filter.product);
+  return {
+    ...framework,
+    positioningStatement: framework.positioningStatement && keep(framework.positioningStatement) ? framework.positioningStatement : null,
+    taglines: framework.taglines.filter(keep),
+    valuePropositions: framework.valuePropositions.filter(keep),
+    proofPoints: framework.proofPoints.filter(keep),
+    keyMessages: framework.keyMessages.filter(keep),
+  };
+}
+
+/** Whether any structured field was found */
+export function hasMessaging(framework: MessagingFramework): boolean {
+  return framework.positioningStatement !== null || framework.taglines.length > 0 ||
+    framework.valuePropositions.length > 0 || framework.proofPoints.length > 0 || framework.keyMessages.length > 0;
+}
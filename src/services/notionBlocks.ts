@@ -0,0 +1,156 @@
+/**
+ * Notion Block Fetching
+ *
+ * Shared helpers for retrieving Notion block content as a tree. Children are
+ * fetched recursively (toggles, columns, nested list items, synced blocks)
+ * up to a bounded depth, with a cap on concurrent Notion API requests.
+ * Child pages and linked pages can optionally be pulled in as well.
+ */
+
+import { Client as NotionClient, isFullPage } from "@notionhq/client";
+import type { BlockObjectResponse } from "@notionhq/client/build/src/api-endpoints.js";
+import { NOTION_FETCH_CONCURRENCY, NOTION_MAX_BLOCK_DEPTH } from "../constants.js";
+
+export interface NotionBlockNode {
+  block: BlockObjectResponse;
+  children: NotionBlockNode[];
+  /** Set for child pages and linked pages whose content was pulled in */
+  page?: { id: string; title: string };
+}
+
+export interface BlockTreeOptions {
+  /** Maximum nesting depth to descend into (top-level blocks are depth 1) */
+  maxDepth?: number;
+  /** Maximum number of concurrent Notion API requests */
+  concurrency?: number;
+  /** Fetch the content of child pages and `link_to_page` targets */
+  includePages?: boolean;
+}
+
+interface TraversalContext {
+  notion: NotionClient;
+  maxDepth: number;
+  includePages: boolean;
+  limit: <T>(task: () => Promise<T>) => Promise<T>;
+  visitedPages: Set<string>;
+}
+
+/** Create a limiter that runs at most `concurrency` tasks at once */
+function createLimiter(concurrency: number): <T>(task: () => Promise<T>) => Promise<T> {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  const next = () => {
+    active--;
+    queue.shift()?.();
+  };
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= concurrency) {
+      await new Promise<void>((resolve) => queue.push(resolve));
+    }
+    active++;
+    try {
+      return await task();
+    } finally {
+      next();
+    }
+  };
+}
+
+/** Fetch the direct children of a Notion block or page (handles pagination) */
+export async function fetchBlockChildren(notion: NotionClient, blockId: string): Promise<BlockObjectResponse[]> {
+  const blocks: BlockObjectResponse[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const response = await notion.blocks.children.list({
+      block_id: blockId,
+      start_cursor: cursor,
+      page_size: 100,
+    });
+
+    for (const block of response.results) {
+      if ("type" in block) {
+        blocks.push(block as BlockObjectResponse);
+      }
+    }
+
+    cursor = response.has_more ? (response.next_cursor ?? undefined) : undefined;
+  } while (cursor);
+
+  return blocks;
+}
+
+/** Look up a page title (used for `link_to_page` targets) */
+async function fetchPageTitle(ctx: TraversalContext, pageId: string): Promise<string> {
+  const page = await ctx.limit(() => ctx.notion.pages.retrieve({ page_id: pageId }));
+  if (!isFullPage(page)) return "Untitled";
+  const titleProp = Object.values(page.properties).find((p) => p.type === "title");
+  const title = titleProp && titleProp.type === "title" ? titleProp.title.map((t) => t.plain_text).join("") : "";
+  return title || "Untitled";
+}
+
+async function buildNode(ctx: TraversalContext, block: BlockObjectResponse, depth: number): Promise<NotionBlockNode> {
+  const node: NotionBlockNode = { block, children: [] };
+
+  if (block.type === "child_page" || block.type === "link_to_page") {
+    const pageId =
+      block.type === "child_page"
+        ? block.id
+        : block.link_to_page.type === "page_id"
+          ? block.link_to_page.page_id
+          : null;
+
+    if (!ctx.includePages || !pageId || ctx.visitedPages.has(pageId)) return node;
+    if (depth >= ctx.maxDepth) {
+      console.error(`Notion page ${pageId} exceeds max depth ${ctx.maxDepth} — content skipped`);
+      return node;
+    }
+    ctx.visitedPages.add(pageId);
+
+    const title = block.type === "child_page" ? block.child_page.title : await fetchPageTitle(ctx, pageId);
+    node.page = { id: pageId, title };
+    // A pulled-in page's content counts against the same nesting budget as any other children
+    node.children = await fetchLevel(ctx, pageId, depth + 1);
+    return node;
+  }
+
+  if (block.type === "child_database" || !block.has_children) return node;
+
+  if (depth >= ctx.maxDepth) {
+    console.error(`Notion block ${block.id} (${block.type}) exceeds max depth ${ctx.maxDepth} — children skipped`);
+    return node;
+  }
+
+  // Synced block copies hold no content themselves — read from the original
+  const sourceId =
+    block.type === "synced_block" && block.synced_block.synced_from
+      ? block.synced_block.synced_from.block_id
+      : block.id;
+
+  node.children = await fetchLevel(ctx, sourceId, depth + 1);
+  return node;
+}
+
+async function fetchLevel(ctx: TraversalContext, blockId: string, depth: number): Promise<NotionBlockNode[]> {
+  const blocks = await ctx.limit(() => fetchBlockChildren(ctx.notion, blockId));
+  return Promise.all(blocks.map((block) => buildNode(ctx, block, depth)));
+}
+
+/** Fetch a page or block's content as a tree, recursing into nested children */
+export async function fetchBlockTree(
+  notion: NotionClient,
+  blockId: string,
+  options: BlockTreeOptions = {}
+): Promise<NotionBlockNode[]> {
+  const ctx: TraversalContext = {
+    notion,
+    maxDepth: options.maxDepth ?? NOTION_MAX_BLOCK_DEPTH,
+    includePages: options.includePages ?? false,
+    limit: createLimiter(options.concurrency ?? NOTION_FETCH_CONCURRENCY),
+    visitedPages: new Set([blockId]),
+  };
+
+  return fetchLevel(ctx, blockId, 1);
+}
@@ -0,0 +1,259 @@
+/**
+ * Notion Markdown Renderer
+ *
+ * Converts Notion rich text and block trees into Markdown, preserving inline
+ * annotations (bold, italic, strikethrough, code), hyperlinks and mentions,
+ * numbered list ordering, tables, media with captions, and callout icons.
+ */
+
+import type { BlockObjectResponse, RichTextItemResponse } from "@notionhq/client/build/src/api-endpoints.js";
+import type { NotionBlockNode } from "./notionBlocks.js";
+
+export interface RenderedBlock {
+  node: NotionBlockNode;
+  markdown: string;
+}
+
+type PageIcon = Extract<BlockObjectResponse, { type: "callout" }>["callout"]["icon"];
+
+type MediaBlock = Extract<BlockObjectResponse, { type: "image" | "video" | "pdf" | "file" | "audio" }>;
+
+const LIST_TYPES = new Set(["bulleted_list_item", "numbered_list_item", "to_do"]);
+
+// ---------------------------------------------------------------------------
+// Rich text
+// ---------------------------------------------------------------------------
+
+/** Extract plain text from a Notion rich-text array */
+export function richTextToPlain(rt: RichTextItemResponse[]): string {
+  return rt.map((t) => t.plain_text).join("");
+}
+
+/** Wrap text in a Markdown marker, keeping surrounding whitespace outside it */
+function wrap(text: string, marker: string): string {
+  const match = text.match(/^(\s*)(.*?)(\s*)$/s);
+  if (!match || !match[2]) return text;
+  return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+}
+
+function richTextItemToMarkdown(item: RichTextItemResponse): string {
+  if (item.type === "equation") {
+    return `$${item.equation.expression}$`;
+  }
+
+  let text = item.plain_text;
+  if (item.type === "mention" && item.mention.type === "user") {
+    text = text.startsWith("@") ? text : `@${text}`;
+  }
+
+  const { bold, italic, strikethrough, code } = item.annotations;
+  if (code) text = wrap(text, "`");
+  if (bold) text = wrap(text, "**");
+  if (italic) text = wrap(text, "_");
+  if (strikethrough) text = wrap(text, "~~");
+
+  if (item.href) {
+    text = `[${text}](${item.href})`;
+  }
+
+  return text;
+}
+
+/** Convert a Notion rich-text array to inline Markdown */
+export function richTextToMarkdown(rt: RichTextItemResponse[]): string {
+  return rt.map(richTextItemToMarkdown).join("");
+}
+
+// ---------------------------------------------------------------------------
+// Blocks
+// ---------------------------------------------------------------------------
+
+function indent(text: string, prefix: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line ? prefix + line : line))
+    .join("\n");
+}
+
+function iconToText(icon: PageIcon): string {
+  if (!icon) return "";
+  switch (icon.type) {
+    case "emoji":
+      return icon.emoji;
+    case "custom_emoji":
+      return `:${icon.custom_emoji.name}:`;
+    default:
+      return "";
+  }
+}
+
+function mediaUrl(block: MediaBlock): string {
+  const media = (block as Record<string, unknown>)[block.type] as
+    | { type: "external"; external: { url: string } }
+    | { type: "file"; file: { url: string } };
+  return media.type === "external" ? media.external.url : media.file.url;
+}
+
+function mediaCaption(block: MediaBlock): RichTextItemResponse[] {
+  const media = (block as Record<string, unknown>)[block.type] as { caption: RichTextItemResponse[] };
+  return media.caption;
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, "<br>");
+}
+
+function renderTable(node: NotionBlockNode): string {
+  const rows = node.children
+    .map((child) => child.block)
+    .filter((b): b is Extract<BlockObjectResponse, { type: "table_row" }> => b.type === "table_row")
+    .map((b) => b.table_row.cells.map((cell) => escapeTableCell(richTextToMarkdown(cell))));
+
+  if (rows.length === 0) return "";
+
+  const width = Math.max(...rows.map((r) => r.length));
+  const pad = (row: string[]) => [...row, ...Array(width - row.length).fill("")];
+  const line = (row: string[]) => `| ${pad(row).join(" | ")} |`;
+
+  // Markdown tables need a header row — Notion tables without one get an empty header
+  const block = node.block as Extract<BlockObjectResponse, { type: "table" }>;
+  const [header, ...body] = block.table.has_column_header ? rows : [Array(width).fill(""), ...rows];
+
+  return [line(header), `|${" --- |".repeat(width)}`, ...body.map(line)].join("\n");
+}
+
+/** Render the children of a block as Markdown (blank-line separated) */
+function renderChildren(node: NotionBlockNode): string {
+  return node.children.length > 0 ? blocksToMarkdown(node.children) : "";
+}
+
+/** Render a single block (and its children) to Markdown */
+export function blockToMarkdown(node: NotionBlockNode, listNumber = 1): string {
+  const block = node.block;
+  const children = renderChildren(node);
+
+  /** Attach nested children beneath a list item */
+  const withNested = (line: string, width: number) =>
+    children ? `${line}\n${indent(children, " ".repeat(width))}` : line;
+
+  /** Attach children after a block, separated by a blank line */
+  const withFollowing = (text: string) => (children ? [text, children].filter(Boolean).join("\n\n") : text);
+
+  switch (block.type) {
+    case "paragraph":
+      return withFollowing(richTextToMarkdown(block.paragraph.rich_text));
+    case "heading_1":
+      return withFollowing(`# ${richTextToMarkdown(block.heading_1.rich_text)}`);
+    case "heading_2":
+      return withFollowing(`## ${richTextToMarkdown(block.heading_2.rich_text)}`);
+    case "heading_3":
+      return withFollowing(`### ${richTextToMarkdown(block.heading_3.rich_text)}`);
+    case "bulleted_list_item":
+      return withNested(`- ${richTextToMarkdown(block.bulleted_list_item.rich_text)}`, 2);
+    case "numbered_list_item": {
+      const prefix = `${listNumber}. `;
+      return withNested(prefix + richTextToMarkdown(block.numbered_list_item.rich_text), prefix.length);
+    }
+    case "to_do":
+      return withNested(`- [${block.to_do.checked ? "x" : " "}] ${richTextToMarkdown(block.to_do.rich_text)}`, 2);
+    case "toggle":
+      return withNested(`▸ ${richTextToMarkdown(block.toggle.rich_text)}`, 2);
+    case "quote":
+      return indent(withFollowing(richTextToMarkdown(block.quote.rich_text)), "> ");
+    case "callout": {
+      const icon = iconToText(block.callout.icon);
+      const text = richTextToMarkdown(block.callout.rich_text);
+      return indent(withFollowing(icon ? `${icon} ${text}` : text), "> ");
+    }
+    case "code": {
+      const language = block.code.language === "plain text" ? "" : block.code.language;
+      const caption = richTextToMarkdown(block.code.caption);
+      const fence = "```" + language + "\n" + richTextToPlain(block.code.rich_text) + "\n```";
+      return caption ? `${fence}\n*${caption}*` : fence;
+    }
+    case "equation":
+      return `$$\n${block.equation.expression}\n$$`;
+    case "divider":
+      return "---";
+    case "image": {
+      const caption = mediaCaption(block);
+      const image = `![${richTextToPlain(caption).replace(/[[\]]/g, "")}](${mediaUrl(block)})`;
+      return caption.length > 0 ? `${image}\n*${richTextToMarkdown(caption)}*` : image;
+    }
+    case "video":
+    case "pdf":
+    case "file":
+    case "audio": {
+      const caption = richTextToMarkdown(mediaCaption(block));
+      const name = block.type === "file" ? block.file.name : undefined;
+      const label = caption || name || block.type.charAt(0).toUpperCase() + block.type.slice(1);
+      return `[${label}](${mediaUrl(block)})`;
+    }
+    case "embed": {
+      const caption = richTextToMarkdown(block.embed.caption);
+      return `[${caption || block.embed.url}](${block.embed.url})`;
+    }
+    case "bookmark": {
+      const caption = richTextToMarkdown(block.bookmark.caption);
+      return `[${caption || block.bookmark.url}](${block.bookmark.url})`;
+    }
+    case "link_preview":
+      return `<${block.link_preview.url}>`;
+    case "table":
+      return renderTable(node);
+    case "column_list":
+    case "column":
+    case "synced_block":
+      return children;
+    case "child_page":
+      // Pulled-in page content is nested under its title, like a toggle's
+      return withNested(`📄 ${block.child_page.title}`, 2);
+    case "child_database":
+      return `🗃 ${block.child_database.title}`;
+    case "link_to_page": {
+      const target = block.link_to_page;
+      const id = target.type === "page_id" ? target.page_id : target.type === "database_id" ? target.database_id : null;
+      return id ? withNested(`[${node.page?.title ?? "Linked page"}](https://www.notion.so/${id.replace(/-/g, "")})`, 2) : "";
+    }
+    default:
+      return "";
+  }
+}
+
+/**
+ * Render a sequence of sibling blocks, numbering consecutive numbered list
+ * items the way Notion displays them.
+ */
+export function renderBlockSequence(nodes: NotionBlockNode[]): RenderedBlock[] {
+  const rendered: RenderedBlock[] = [];
+  let listNumber = 0;
+
+  for (const node of nodes) {
+    listNumber = node.block.type === "numbered_list_item" ? listNumber + 1 : 0;
+    rendered.push({ node, markdown: blockToMarkdown(node, listNumber || 1) });
+  }
+
+  return rendered;
+}
+
+/**
+ * Separator between two rendered sibling blocks — consecutive items of the
+ * same list stay on adjacent lines so they render as one list.
+ */
+export function blockSeparator(previousType: string | null, type: string): string {
+  return previousType === type && LIST_TYPES.has(type) ? "\n" : "\n\n";
+}
+
+/** Render a sequence of sibling blocks to a single Markdown document */
+export function blocksToMarkdown(nodes: NotionBlockNode[]): string {
+  let markdown = "";
+  let previousType: string | null = null;
+
+  for (const { node, markdown: text } of renderBlockSequence(nodes)) {
+    if (!text.trim()) continue;
+    markdown += markdown ? blockSeparator(previousType, node.block.type) + text : text;
+    previousType = node.block.type;
+  }
+
+  return markdown;
+}
@@ -0,0 +1,139 @@
+/**
+ * Notion Webhook Service
+ *
+ * Verifies signed Notion webhook deliveries and maps each event to the
+ * content source it affects, so only that source is refetched:
+ *   - the Brand Bible page (or a child page or heading within it)
+ *   - the System Concepts database
+ *   - the System Components database
+ *
+ * Notion signs every event with an HMAC-SHA256 of the raw request body,
+ * keyed with the verification token it sends once when the subscription is
+ * created, and passes it as `X-Notion-Signature: sha256=<hex>`.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { getConfig } from "../config.js";
+import { invalidateBrandBible, isBrandBibleBlock } from "./brandBible.js";
+import { invalidateGlossary } from "./glossary.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type WebhookTarget = "brandBible" | "glossaryConcepts" | "glossaryComponents";
+
+export interface NotionWebhookEvent {
+  id?: string;
+  type: string;
+  timestamp?: string;
+  entity?: { id: string; type: string };
+  data?: {
+    parent?: { id?: string; type?: string; data_source_id?: string; database_id?: string };
+  };
+}
+
+export interface WebhookResponse {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+// ---------------------------------------------------------------------------
+// Signatures
+// ---------------------------------------------------------------------------
+
+/** Value of the X-Notion-Signature header for a request body */
+export function signNotionPayload(body: string | Buffer, secret: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+export function verifyNotionSignature(body: Buffer, signature: string | undefined, secret: string): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(signNotionPayload(body, secret));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// ---------------------------------------------------------------------------
+// Event routing
+// ---------------------------------------------------------------------------
+
+const normalizeId = (id: string | undefined) => (id ?? "").replace(/-/g, "").toLowerCase();
+
+/** Content sources an event affects (empty for unrelated pages) */
+export function targetsForEvent(event: NotionWebhookEvent): WebhookTarget[] {
+  const parent = event.data?.parent;
+  const ids = [event.entity?.id, parent?.id, parent?.data_source_id, parent?.database_id]
+    .filter((id): id is string => !!id)
+    .map(normalizeId);
+  const glossary = getConfig().sources.glossary;
+  const targets: WebhookTarget[] = [];
+
+  if (ids.some((id) => isBrandBibleBlock(id))) targets.push("brandBible");
+  if (ids.includes(normalizeId(glossary.systemConceptsDatabaseId))) targets.push("glossaryConcepts");
+  if (ids.includes(normalizeId(glossary.systemComponentsDatabaseId))) targets.push("glossaryComponents");
+  return targets;
+}
+
+function invalidate(target: WebhookTarget): Promise<unknown> {
+  switch (target) {
+    case "brandBible":
+      return invalidateBrandBible();
+    case "glossaryConcepts":
+      return invalidateGlossary("system-concept");
+    case "glossaryComponents":
+      return invalidateGlossary("system-component");
+  }
+}
+
+/**
+ * Handle a webhook delivery: answer Notion's verification request (only until
+ * a secret is configured), reject unsigned or tampered events, and refetch affected sources in the
+ * background (Notion expects a quick response).
+ */
+export function handleNotionWebhook(rawBody: Buffer, signature: string | undefined): WebhookResponse {
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(rawBody.toString("utf-8"));
+  } catch {
+    return { status: 400, body: { error: "Invalid JSON body" } };
+  }
+
+  // Subscription setup: Notion sends the token that signs all later events. The
+  // request is unsigned, so once a secret is set anyone could be sending it.
+  const secret = process.env.NOTION_WEBHOOK_SECRET;
+  if (typeof payload.verification_token === "string") {
+    if (secret) {
+      console.error("Notion webhook verification request ignored: NOTION_WEBHOOK_SECRET is already set");
+      return { status: 409, body: { error: "Webhook already configured: NOTION_WEBHOOK_SECRET is set" } };
+    }
+    console.error(
+      `Notion webhook verification token received in an unauthenticated request: ${payload.verification_token} — ` +
+        "if it matches the token shown in Notion's webhook settings, enter it there to verify the subscription " +
+        "and set it as NOTION_WEBHOOK_SECRET"
+    );
+    return { status: 200, body: { received: true } };
+  }
+
+  if (!secret) {
+    return { status: 503, body: { error: "Webhook not configured: NOTION_WEBHOOK_SECRET is not set" } };
+  }
+  if (!verifyNotionSignature(rawBody, signature, secret)) {
+    return { status: 401, body: { error: "Invalid signature" } };
+  }
+
+  const event = payload as unknown as NotionWebhookEvent;
+  if (typeof event.type !== "string") {
+    return { status: 400, body: { error: "Missing event type" } };
+  }
+
+  const targets = targetsForEvent(event);
+  for (const target of targets) {
+    invalidate(target).catch((error) => console.error(`Webhook refresh of ${target} failed:`, error));
+  }
+  console.error(
+    `Notion webhook ${event.type} (${event.entity?.id ?? "no entity"}) → ` +
+      (targets.length > 0 ? `refreshing ${targets.join(", ")}` : "ignored")
+  );
+  return { status: 200, body: { received: true, refreshing: targets } };
+}
@@ -0,0 +1,60 @@
+/**
+ * Persistent Cache
+ *
+ * Keeps the last good payload of each cached source on disk so a restart
+ * or deploy serves real content immediately, while a background refresh
+ * fetches the current version (see cacheManager.ts).
+ *
+ * Layout under DATA_DIR:
+ *   cache/<name>.json   — { savedAt, data } for each service
+ */
+
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { join } from "path";
+import { DATA_DIR } from "../constants.js";
+
+interface PersistedPayload {
+  savedAt: string;
+  data: unknown;
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+const CACHE_DIR = join(DATA_DIR, "cache");
+
+function cachePath(name: string): string {
+  return join(CACHE_DIR, `${name}.json`);
+}
+
+/**
+ * Read a persisted payload. `revive` restores values JSON can't represent
+ * (dates) and returns null if the payload is unusable.
+ */
+export async function loadPersisted<T>(
+  name: string,
+  revive: (data: unknown) => T | null
+): Promise<{ data: T; savedAt: Date } | null> {
+  try {
+    const payload = JSON.parse(await readFile(cachePath(name), "utf-8")) as PersistedPayload;
+    const savedAt = new Date(payload.savedAt);
+    const data = revive(payload.data);
+    if (!data || isNaN(savedAt.getTime())) return null;
+    return { data, savedAt };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Ignoring unreadable ${name} cache file:`, error);
+    }
+    return null;
+  }
+}
+
+/** Write a payload, via a temporary file so a crash never leaves a partial cache */
+export async function persist(name: string, data: unknown, savedAt = new Date()): Promise<void> {
+  await mkdir(CACHE_DIR, { recursive: true });
+  const path = cachePath(name);
+  const payload: PersistedPayload = { savedAt: savedAt.toISOString(), data };
+  await writeFile(`${path}.tmp`, JSON.stringify(payload), "utf-8");
+  await rename(`${path}.tmp`, path);
+}
@@ -0,0 +1,102 @@
+/**
+ * Plain-Language Dictionary
+ *
+ * Rewrites technical wording for a particular reader — retail users,
+ * investors, developers or press — from a maintained dictionary: the built-in
+ * entries in constants.ts plus any `plainLanguage` entries in the config file
+ * (which replace built-ins with the same term). Each entry has a default
+ * replacement and optional per-audience wording; an audience can also keep
+ * the technical term (e.g. developers keep "liquidity").
+ *
+ * Matching is whole-word and case-insensitive, longest term first, with
+ * hyphens and spaces interchangeable. A replacement starting a sentence is
+ * capitalized, and a preceding "a"/"an" is adjusted to it.
+ */
+
+import { PLAIN_LANGUAGE_DICTIONARY } from "../constants.js";
+import { getConfig } from "../config.js";
+import type { PlainLanguageAudience, PlainLanguageEntry } from "../config.js";
+import { flexiblePattern, normalizeTerm } from "./textMatching.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface Substitution {
+  /** The wording as found in the text */
+  from: string;
+  to: string;
+  count: number;
+}
+
+export interface PlainLanguageResult {
+  text: string;
+  audience: PlainLanguageAudience | null;
+  substitutions: Substitution[];
+}
+
+// ---------------------------------------------------------------------------
+// Dictionary
+// ---------------------------------------------------------------------------
+
+/** Built-in entries merged with the config file's, keyed by normalized term */
+export function getPlainLanguageDictionary(): PlainLanguageEntry[] {
+  const entries = new Map<string, PlainLanguageEntry>();
+  for (const entry of [...PLAIN_LANGUAGE_DICTIONARY, ...getConfig().plainLanguage]) {
+    entries.set(normalizeTerm(entry.term), entry);
+  }
+  return [...entries.values()];
+}
+
+/** Wording for an audience: its own variant, else the default; null keeps the term */
+function wordingFor(entry: PlainLanguageEntry, audience: PlainLanguageAudience | null): string | null {
+  const variant = audience ? entry.audiences?.[audience] : undefined;
+  return variant !== undefined ? variant : entry.replacement;
+}
+
+/** Capitalize a replacement that starts a sentence ("Liquidity is …" → "Available funds is …") */
+function matchCase(replacement: string, original: string, sentenceStart: boolean): string {
+  return sentenceStart && /^\p{Lu}/u.test(original) && /^\p{Ll}/u.test(replacement)
+    ? replacement[0].toUpperCase() + replacement.slice(1)
+    : replacement;
+}
+
+/** "a" or "an" for the word that follows, keeping the original article's case */
+function article(original: string, next: string): string {
+  const chosen = /^[aeiou]/i.test(next) ? "an" : "a";
+  return /^A/.test(original) ? chosen[0].toUpperCase() + chosen.slice(1) : chosen;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Rewrite text in plain language for an audience (or the default wording), listing each substitution */
+export function simplifyText(text: string, audience: PlainLanguageAudience | null = null): PlainLanguageResult {
+  const byPhrase = new Map<string, PlainLanguageEntry>();
+  for (const entry of getPlainLanguageDictionary()) {
+    for (const phrase of [entry.term, ...(entry.variants ?? [])]) byPhrase.set(phrase, entry);
+  }
+  if (byPhrase.size === 0) return { text, audience, substitutions: [] };
+
+  const phrases = [...byPhrase.keys()].sort((a, b) => b.length - a.length).map(flexiblePattern);
+  const entryFor = new Map([...byPhrase].map(([phrase, entry]) => [normalizeTerm(phrase), entry]));
+  // An optional "a"/"an" before the term is captured so it can agree with the replacement
+  const pattern = new RegExp(`(?:\\b(an?)(\\s+))?(?<![\\p{L}\\p{N}-])(${phrases.join("|")})(?![\\p{L}\\p{N}-])`, "giu");
+
+  const applied = new Map<string, Substitution>();
+  const result = text.replace(pattern, (match, art: string | undefined, space: string | undefined, found: string, offset: number) => {
+    const entry = entryFor.get(normalizeTerm(found));
+    const wording = entry ? wordingFor(entry, audience) : null;
+    if (!wording || normalizeTerm(wording) === normalizeTerm(found)) return match;
+
+    const replacement = matchCase(wording, found, !art && /(?:^|[.!?:]\s+)$/.test(text.slice(0, offset)));
+    const key = `${normalizeTerm(found)}\u0000${wording}`;
+    const substitution = applied.get(key) ?? { from: found, to: wording, count: 0 };
+    substitution.count++;
+    applied.set(key, substitution);
+    return art ? `${article(art, replacement)}${space}${replacement}` : replacement;
+  });
+
+  return { text: result, audience, substitutions: [...applied.values()] };
+}
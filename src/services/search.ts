@@ -0,0 +1,201 @@
+/**
+ * Unified Search Service
+ *
+ * Ranked search across the Brand Bible, Technical Glossary and marketing
+ * stats from a single in-memory index. The index is rebuilt lazily after any
+ * of the underlying caches refresh with changed content.
+ */
+
+import { fetchBrandBible } from "./brandBible.js";
+import { contentEvents } from "./contentEvents.js";
+import { fetchGlossary } from "./glossary.js";
+import {
+  buildSearchIndex,
+  IndexDocument,
+  querySearchIndex,
+  SearchIndex,
+  suggestIndexTerms,
+  tokenize,
+} from "./searchIndex.js";
+import { fetchMarketingStats } from "./stats.js";
+import { expandSynonyms } from "./textMatching.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SearchSourceType = "brand-bible" | "glossary" | "stats";
+
+export interface UnifiedSearchResult {
+  sourceType: SearchSourceType;
+  /** Section/subsection ID, glossary term title, or stats dataset name */
+  id: string;
+  title: string;
+  /** Where the result lives, e.g. the parent section of a subsection */
+  context?: string;
+  snippet: string;
+  /** Relevance normalized to 0–1 relative to the best match */
+  score: number;
+  phraseMatch: boolean;
+}
+
+interface SourceDocument extends IndexDocument {
+  sourceType: SearchSourceType;
+  sourceId: string;
+  context?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Index lifecycle
+// ---------------------------------------------------------------------------
+
+let searchIndex: { index: SearchIndex; documents: Map<string, SourceDocument> } | null = null;
+
+// Any content change invalidates the index; it is rebuilt on the next search
+contentEvents.on("brandBibleChanged", () => (searchIndex = null));
+contentEvents.on("glossaryChanged", () => (searchIndex = null));
+contentEvents.on("statsChanged", () => (searchIndex = null));
+
+async function collectDocuments(): Promise<SourceDocument[]> {
+  const [brandBible, glossary, stats] = await Promise.all([
+    fetchBrandBible(),
+    fetchGlossary(),
+    fetchMarketingStats(),
+  ]);
+  const documents: SourceDocument[] = [];
+
+  for (const section of brandBible.sections) {
+    documents.push({
+      id: `brand-bible:${section.id}`,
+      sourceType: "brand-bible",
+      sourceId: section.id,
+      title: section.title,
+      text: section.content,
+    });
+    for (const sub of section.subsections) {
+      documents.push({
+        id: `brand-bible:${sub.id}`,
+        sourceType: "brand-bible",
+        sourceId: sub.id,
+        title: sub.title,
+        text: sub.content,
+        context: section.title,
+      });
+    }
+  }
+
+  for (const term of glossary.terms) {
+    documents.push({
+      id: `glossary:${term.title}`,
+      sourceType: "glossary",
+      sourceId: term.title,
+      title: term.title,
+      text: `${term.summary}\n${[...term.aliases, ...term.tags].join(" ")}`,
+      context: term.category === "system-concept" ? "System Concept" : "System Component",
+    });
+  }
+
+  documents.push(
+    {
+      id: "stats:networks",
+      sourceType: "stats",
+      sourceId: "networks",
+      title: "Integrated networks",
+      text: `SODAX is integrated with ${stats.networkCount} networks (chains): ${stats.networks.map((n) => n.name).join(", ")}.`,
+    },
+    {
+      id: "stats:partners",
+      sourceType: "stats",
+      sourceId: "partners",
+      title: "Partner integrations",
+      text: `SODAX has ${stats.partnerCount} partner integrations.`,
+    },
+    {
+      id: "stats:token-supply",
+      sourceType: "stats",
+      sourceId: "token-supply",
+      title: "SODA token supply",
+      text:
+        `SODA token total supply ${stats.tokenSupply.totalSupply}, circulating supply ${stats.tokenSupply.circulatingSupply}, ` +
+        `locked supply ${stats.tokenSupply.lockedSupply}.`,
+    },
+    {
+      id: "stats:money-market",
+      sourceType: "stats",
+      sourceId: "money-market",
+      title: "Money market assets",
+      text:
+        `The SODAX money market supports ${stats.moneyMarketAssets.length} assets for lending and borrowing: ` +
+        `${stats.moneyMarketAssets.map((a) => a.symbol).join(", ")}.`,
+    }
+  );
+
+  return documents;
+}
+
+async function getSearchIndex(): Promise<{ index: SearchIndex; documents: Map<string, SourceDocument> }> {
+  // Fetch first: a cache refresh here may emit a change event and reset the index
+  const documents = await collectDocuments();
+  if (!searchIndex) {
+    searchIndex = {
+      index: buildSearchIndex(documents),
+      documents: new Map(documents.map((d) => [d.id, d])),
+    };
+  }
+  return searchIndex;
+}
+
+// ---------------------------------------------------------------------------
+// Snippets
+// ---------------------------------------------------------------------------
+
+/** Excerpt around the first word whose stem matches a query term */
+function makeSnippet(text: string, queryTerms: Set<string>, length = 180): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+
+  for (const match of flat.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const [token] = tokenize(match[0]);
+    if (!token || !queryTerms.has(token)) continue;
+
+    const index = match.index ?? 0;
+    const start = Math.max(0, index - length / 2);
+    const end = Math.min(flat.length, index + length / 2);
+    return (start > 0 ? "..." : "") + flat.slice(start, end) + (end < flat.length ? "..." : "");
+  }
+
+  return flat.length > length ? flat.slice(0, length) + "..." : flat;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export async function searchAll(
+  query: string,
+  options: { sources?: SearchSourceType[]; maxResults?: number } = {}
+): Promise<UnifiedSearchResult[]> {
+  const { index, documents } = await getSearchIndex();
+  const queryTerms = new Set(tokenize(query.replace(/"/g, " ")));
+  const corrections = [...queryTerms].flatMap((term) => suggestIndexTerms(index, term));
+  const extraTerms = [...expandSynonyms(query), ...corrections];
+  for (const term of tokenize(extraTerms.join(" "))) queryTerms.add(term);
+  const results: UnifiedSearchResult[] = [];
+
+  for (const match of querySearchIndex(index, query, extraTerms)) {
+    const doc = documents.get(match.id);
+    if (!doc || (options.sources && !options.sources.includes(doc.sourceType))) continue;
+    results.push({
+      sourceType: doc.sourceType,
+      id: doc.sourceId,
+      title: doc.title,
+      context: doc.context,
+      snippet: makeSnippet(doc.text || doc.title, queryTerms),
+      score: match.score,
+      phraseMatch: match.phraseMatch,
+    });
+  }
+
+  const top = results.slice(0, options.maxResults ?? 10);
+  const best = top[0]?.score ?? 1;
+  return top.map((r) => ({ ...r, score: Math.round((r.score / best) * 1000) / 1000 }));
+}
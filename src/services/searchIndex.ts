@@ -0,0 +1,206 @@
+/**
+ * In-memory Search Index
+ *
+ * A small inverted index with BM25 scoring, light English stemming, stop-word
+ * removal and phrase matching. Used by the unified search across the Brand
+ * Bible, glossary and marketing stats.
+ */
+
+import { closestMatches } from "./textMatching.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface IndexDocument {
+  id: string;
+  title: string;
+  text: string;
+}
+
+export interface IndexMatch {
+  id: string;
+  score: number;
+  /** Whether the query (or a quoted phrase in it) appears verbatim */
+  phraseMatch: boolean;
+}
+
+interface Posting {
+  /** Term frequency, with title occurrences weighted */
+  tf: number;
+  /** Token positions in the body, for phrase matching */
+  positions: number[];
+}
+
+export interface SearchIndex {
+  documents: Map<string, IndexDocument>;
+  postings: Map<string, Map<string, Posting>>;
+  lengths: Map<string, number>;
+  averageLength: number;
+}
+
+// ---------------------------------------------------------------------------
+// Text analysis
+// ---------------------------------------------------------------------------
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "can", "do", "does", "for", "from", "how", "if",
+  "in", "into", "is", "it", "its", "of", "on", "or", "our", "so", "such", "that", "the", "their", "then",
+  "there", "these", "they", "this", "to", "was", "we", "what", "when", "where", "which", "who", "why",
+  "will", "with", "you", "your",
+]);
+
+/** BM25 parameters */
+const K1 = 1.2;
+const B = 0.75;
+
+/** Title occurrences count this many times toward term frequency */
+const TITLE_WEIGHT = 3;
+
+/** Score multiplier for documents containing the query as an exact phrase */
+const PHRASE_BOOST = 1.5;
+
+/** Weight of expansion terms (synonyms, spelling corrections) relative to query terms */
+const EXTRA_TERM_WEIGHT = 0.5;
+
+/** Light suffix-stripping stemmer — enough to conflate plurals and common verb forms */
+export function stem(word: string): string {
+  if (word.length <= 3) return word;
+  const rules: [RegExp, string][] = [
+    [/ies$/, "y"],
+    [/sses$/, "ss"],
+    [/([^s])s$/, "$1"],
+    [/eed$/, "ee"],
+    [/([aeiou].*)ing$/, "$1"],
+    [/([aeiou].*)ed$/, "$1"],
+    [/ly$/, ""],
+    [/ational$/, "ate"],
+    [/ization$/, "ize"],
+    [/ness$/, ""],
+    [/ment$/, ""],
+  ];
+  for (const [pattern, replacement] of rules) {
+    if (pattern.test(word)) {
+      const stemmed = word.replace(pattern, replacement);
+      return stemmed.length >= 3 ? stemmed : word;
+    }
+  }
+  return word;
+}
+
+/** Lowercase, split into words, drop stop words and stem */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((word) => !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+// ---------------------------------------------------------------------------
+// Index
+// ---------------------------------------------------------------------------
+
+export function buildSearchIndex(documents: IndexDocument[]): SearchIndex {
+  const index: SearchIndex = {
+    documents: new Map(),
+    postings: new Map(),
+    lengths: new Map(),
+    averageLength: 0,
+  };
+
+  let totalLength = 0;
+
+  for (const doc of documents) {
+    index.documents.set(doc.id, doc);
+    const titleTokens = tokenize(doc.title);
+    const bodyTokens = tokenize(doc.text);
+    const length = titleTokens.length * TITLE_WEIGHT + bodyTokens.length;
+    index.lengths.set(doc.id, length);
+    totalLength += length;
+
+    const posting = (term: string): Posting => {
+      let byDoc = index.postings.get(term);
+      if (!byDoc) {
+        byDoc = new Map();
+        index.postings.set(term, byDoc);
+      }
+      let entry = byDoc.get(doc.id);
+      if (!entry) {
+        entry = { tf: 0, positions: [] };
+        byDoc.set(doc.id, entry);
+      }
+      return entry;
+    };
+
+    for (const term of titleTokens) posting(term).tf += TITLE_WEIGHT;
+    bodyTokens.forEach((term, position) => {
+      const entry = posting(term);
+      entry.tf++;
+      entry.positions.push(position);
+    });
+  }
+
+  index.averageLength = documents.length > 0 ? totalLength / documents.length : 0;
+  return index;
+}
+
+/** Check whether the terms appear consecutively in a document body */
+function containsPhrase(index: SearchIndex, docId: string, terms: string[]): boolean {
+  if (terms.length < 2) return false;
+  const first = index.postings.get(terms[0])?.get(docId);
+  if (!first) return false;
+
+  return first.positions.some((start) =>
+    terms.every((term, offset) => index.postings.get(term)?.get(docId)?.positions.includes(start + offset))
+  );
+}
+
+/** Index terms closest to a query term that does not occur in the index */
+export function suggestIndexTerms(index: SearchIndex, term: string): string[] {
+  if (index.postings.has(term) || term.length < 4) return [];
+  return closestMatches(term, index.postings.keys(), { threshold: 0.7, limit: 1 }).map((m) => m.value);
+}
+
+/**
+ * Query the index. Quoted parts of the query ("cross network") must appear as
+ * exact phrases; otherwise a phrase match of the whole query boosts the score.
+ * Extra terms (synonyms, corrections) contribute at reduced weight.
+ */
+export function querySearchIndex(index: SearchIndex, query: string, extraTerms: string[] = []): IndexMatch[] {
+  const phrases = [...query.matchAll(/"([^"]+)"/g)].map((m) => tokenize(m[1])).filter((p) => p.length > 0);
+  const terms = [...new Set(tokenize(query.replace(/"/g, " ")))];
+  if (terms.length === 0) return [];
+
+  const weights = new Map<string, number>(terms.map((t) => [t, 1]));
+  for (const term of tokenize(extraTerms.join(" "))) {
+    if (!weights.has(term)) weights.set(term, EXTRA_TERM_WEIGHT);
+  }
+
+  const docCount = index.documents.size;
+  const scores = new Map<string, number>();
+
+  for (const [term, weight] of weights) {
+    const byDoc = index.postings.get(term);
+    if (!byDoc) continue;
+    const idf = Math.log(1 + (docCount - byDoc.size + 0.5) / (byDoc.size + 0.5));
+
+    for (const [docId, posting] of byDoc) {
+      const length = index.lengths.get(docId) ?? 0;
+      const norm = posting.tf + K1 * (1 - B + B * (length / (index.averageLength || 1)));
+      const score = weight * idf * ((posting.tf * (K1 + 1)) / norm);
+      scores.set(docId, (scores.get(docId) ?? 0) + score);
+    }
+  }
+
+  const wholeQuery = tokenize(query.replace(/"/g, " "));
+  const matches: IndexMatch[] = [];
+
+  for (const [id, score] of scores) {
+    if (phrases.some((phrase) => phrase.length > 1 && !containsPhrase(index, id, phrase))) continue;
+    if (phrases.some((phrase) => phrase.length === 1 && !index.postings.get(phrase[0])?.has(id))) continue;
+
+    const phraseMatch = phrases.length > 0 || containsPhrase(index, id, wholeQuery);
+    matches.push({ id, score: phraseMatch ? score * PHRASE_BOOST : score, phraseMatch });
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
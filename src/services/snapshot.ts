@@ -0,0 +1,239 @@
+/**
+ * Snapshot Bundles
+ *
+ * A snapshot bundle holds the full Brand Bible, glossary and marketing stats
+ * as JSON, with Markdown copies for human review and a manifest naming its
+ * format and content version. `pnpm snapshot:export` writes one; with
+ * SNAPSHOT_PATH set, the cache manager serves every source from it without
+ * any network access — for air-gapped agents, guidelines pinned for a
+ * campaign, and CI runs without a NOTION_TOKEN.
+ *
+ * Bundle layout:
+ *   manifest.json                                   — format, version, counts
+ *   brand-bible.json, glossary.json, stats.json     — payloads, by cache name
+ *   brand-bible.md, glossary.md, stats.md           — human-readable copies
+ */
+
+import { createHash } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import { mkdir, writeFile } from "fs/promises";
+import { join, resolve } from "path";
+import { getConfig } from "../config.js";
+import type { ServerConfig } from "../config.js";
+import type { BrandBible } from "../types.js";
+import type { GlossaryData } from "./glossary.js";
+import type { MarketingStats } from "./stats.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Bumped when the bundle layout changes incompatibly */
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+/** Payload files, named after the cache sources they feed */
+const PAYLOAD_NAMES = ["brand-bible", "glossary", "stats"] as const;
+type PayloadName = (typeof PAYLOAD_NAMES)[number];
+
+export interface SnapshotManifest {
+  format: "sodax-snapshot";
+  formatVersion: number;
+  /** Content version: creation time and content hash, e.g. "20261019T045000Z-1a2b3c4d" */
+  version: string;
+  createdAt: string;
+  /** SHA-256 of the three payload files */
+  contentHash: string;
+  sources: ServerConfig["sources"];
+  counts: { sections: number; subsections: number; terms: number; networks: number; partners: number };
+}
+
+export interface SnapshotContent {
+  brandBible: BrandBible;
+  glossary: GlossaryData;
+  stats: MarketingStats;
+}
+
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SnapshotError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+function brandBibleMarkdown(brandBible: BrandBible): string {
+  let markdown = `# ${brandBible.title}\n\n`;
+  for (const section of brandBible.sections) {
+    markdown += `## ${section.id}. ${section.title}\n\n${section.content}\n\n`;
+    for (const sub of section.subsections) {
+      markdown += `### ${sub.id} ${sub.title}\n\n${sub.content}\n\n`;
+    }
+  }
+  return markdown;
+}
+
+function glossaryMarkdown(glossary: GlossaryData): string {
+  let markdown = `# ${glossary.title}\n\n`;
+  for (const [category, heading] of [["system-concept", "System Concepts"], ["system-component", "System Components"]]) {
+    markdown += `## ${heading}\n\n`;
+    for (const term of glossary.terms.filter((t) => t.category === category)) {
+      markdown += `### ${term.title}\n\n${term.summary}\n\n`;
+      if (term.aliases.length > 0) markdown += `**Also known as:** ${term.aliases.join(", ")}\n\n`;
+      if (term.tags.length > 0) markdown += `**Tags:** ${term.tags.map((t) => `\`${t}\``).join(", ")}\n\n`;
+    }
+  }
+  return markdown;
+}
+
+function statsMarkdown(stats: MarketingStats): string {
+  let markdown = `# SODAX Marketing Stats\n\n`;
+  markdown += `**Fetched:** ${stats.lastUpdated.toISOString()}\n\n`;
+  markdown += `| Metric | Value |\n|--------|-------|\n`;
+  markdown += `| Integrated Networks | ${stats.networkCount} |\n`;
+  markdown += `| Partner Integrations | ${stats.partnerCount} |\n`;
+  markdown += `| Total Token Supply | ${stats.tokenSupply.totalSupply} SODA |\n`;
+  markdown += `| Circulating Supply | ${stats.tokenSupply.circulatingSupply} SODA |\n`;
+  markdown += `| Money Market Assets | ${stats.moneyMarketAssets.length} |\n`;
+  markdown += `| Recent Intents (Orderbook) | ${stats.recentIntentsCount} |\n\n`;
+  markdown += `## Networks\n\n${stats.networks.map((n) => `- ${n.name} (\`${n.id}\`)`).join("\n")}\n`;
+  return markdown;
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+function hashPayloads(files: Record<PayloadName, string>): string {
+  const hash = createHash("sha256");
+  for (const name of PAYLOAD_NAMES) hash.update(files[name]);
+  return hash.digest("hex");
+}
+
+/** Version string for a bundle: compact UTC timestamp plus short content hash */
+export function snapshotVersion(createdAt: Date, contentHash: string): string {
+  return `${createdAt.toISOString().replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z")}-${contentHash.slice(0, 8)}`;
+}
+
+/** Write a bundle into a new directory under `parentDir`; returns its manifest and path */
+export async function writeSnapshotBundle(
+  parentDir: string,
+  content: SnapshotContent
+): Promise<{ manifest: SnapshotManifest; path: string }> {
+  const files: Record<PayloadName, string> = {
+    "brand-bible": JSON.stringify(content.brandBible, null, 2),
+    glossary: JSON.stringify(content.glossary, null, 2),
+    stats: JSON.stringify(content.stats, null, 2),
+  };
+  const createdAt = new Date();
+  const contentHash = hashPayloads(files);
+  const manifest: SnapshotManifest = {
+    format: "sodax-snapshot",
+    formatVersion: SNAPSHOT_FORMAT_VERSION,
+    version: snapshotVersion(createdAt, contentHash),
+    createdAt: createdAt.toISOString(),
+    contentHash,
+    sources: getConfig().sources,
+    counts: {
+      sections: content.brandBible.sections.length,
+      subsections: content.brandBible.sections.reduce((n, s) => n + s.subsections.length, 0),
+      terms: content.glossary.terms.length,
+      networks: content.stats.networkCount,
+      partners: content.stats.partnerCount,
+    },
+  };
+
+  const path = join(parentDir, manifest.version);
+  await mkdir(path, { recursive: true });
+  await Promise.all([
+    ...PAYLOAD_NAMES.map((name) => writeFile(join(path, `${name}.json`), files[name], "utf-8")),
+    writeFile(join(path, "brand-bible.md"), brandBibleMarkdown(content.brandBible), "utf-8"),
+    writeFile(join(path, "glossary.md"), glossaryMarkdown(content.glossary), "utf-8"),
+    writeFile(join(path, "stats.md"), statsMarkdown(content.stats), "utf-8"),
+  ]);
+  // Manifest last, so a bundle with a manifest is always complete
+  await writeFile(join(path, "manifest.json"), JSON.stringify(manifest, null, 2), "utf-8");
+  return { manifest, path };
+}
+
+// ---------------------------------------------------------------------------
+// Snapshot run mode
+// ---------------------------------------------------------------------------
+
+interface LoadedBundle {
+  path: string;
+  manifest: SnapshotManifest;
+  payloads: Record<PayloadName, unknown>;
+}
+
+let bundle: LoadedBundle | null = null;
+
+function readJson(path: string): unknown {
+  if (!existsSync(path)) throw new SnapshotError(`Snapshot file missing: ${path}`);
+  try {
+    return JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    throw new SnapshotError(`Could not parse ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/** Payloads must at least have the collections every tool reads */
+const REQUIRED_ARRAYS: Record<PayloadName, string> = {
+  "brand-bible": "sections",
+  glossary: "terms",
+  stats: "networks",
+};
+
+/**
+ * Read and validate the bundle at `path` (once per process). Throws a
+ * SnapshotError naming the problem if the bundle is missing, incomplete or
+ * in an unsupported format.
+ */
+export function loadSnapshotBundle(path: string): SnapshotManifest {
+  const dir = resolve(path);
+  if (bundle?.path === dir) return bundle.manifest;
+
+  const manifest = readJson(join(dir, "manifest.json")) as SnapshotManifest;
+  if (manifest?.format !== "sodax-snapshot") {
+    throw new SnapshotError(`${dir} is not a SODAX snapshot bundle (manifest.json has no "format": "sodax-snapshot")`);
+  }
+  if (manifest.formatVersion !== SNAPSHOT_FORMAT_VERSION) {
+    throw new SnapshotError(
+      `Snapshot ${manifest.version} uses format version ${manifest.formatVersion}; this server reads version ${SNAPSHOT_FORMAT_VERSION}`
+    );
+  }
+
+  const raw = {} as Record<PayloadName, string>;
+  const payloads = {} as Record<PayloadName, unknown>;
+  for (const name of PAYLOAD_NAMES) {
+    const file = join(dir, `${name}.json`);
+    payloads[name] = readJson(file);
+    raw[name] = readFileSync(file, "utf-8");
+    const collection = (payloads[name] as Record<string, unknown>)?.[REQUIRED_ARRAYS[name]];
+    if (!Array.isArray(collection)) {
+      throw new SnapshotError(`Snapshot file ${file} has no "${REQUIRED_ARRAYS[name]}" list`);
+    }
+  }
+
+  // Hand edits to a reviewed bundle are allowed, but worth knowing about
+  if (hashPayloads(raw) !== manifest.contentHash) {
+    console.error(`Snapshot ${manifest.version}: payload files differ from the exported content hash (edited by hand?)`);
+  }
+
+  bundle = { path: dir, manifest, payloads };
+  return manifest;
+}
+
+/**
+ * Payload for a cache source when SNAPSHOT_PATH is set, or null when the
+ * server runs against live sources.
+ */
+export function getSnapshotPayload(name: string): { data: unknown; createdAt: Date; version: string } | null {
+  const path = getConfig().snapshotPath;
+  if (!path) return null;
+  const manifest = loadSnapshotBundle(path);
+  if (!(PAYLOAD_NAMES as readonly string[]).includes(name)) return null;
+  return { data: bundle!.payloads[name as PayloadName], createdAt: new Date(manifest.createdAt), version: manifest.version };
+}
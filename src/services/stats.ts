@@ -9,11 +9,15 @@
  *   - Money market assets
  *   - Recent trading activity (orderbook)
  *
- * Implements caching with auto-refresh every 5 minutes.
+ * Implements caching with auto-refresh every 5 minutes. The last good figures
+ * are persisted to disk and served after a restart while a background refresh
+ * runs; an endpoint that fails keeps its last known value.
  */
 
 import axios from "axios";
-import { SODAX_API_BASE_URL, STATS_CACHE_DURATION_MS } from "../constants.js";
+import { getConfig } from "../config.js";
+import { contentEvents } from "./contentEvents.js";
+import { CacheStatus, createCachedSource, formatRefreshFailure } from "./cacheManager.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -60,12 +64,27 @@ export interface MarketingStats {
 // Cache
 // ---------------------------------------------------------------------------
 
-let cachedStats: MarketingStats | null = null;
-let lastStatsFetchTime: Date | null = null;
+const statsCache = createCachedSource<MarketingStats>({
+  name: "stats",
+  label: "Marketing stats",
+  ttlSeconds: () => getConfig().cache.statsTtlSeconds,
+  load: loadStatsFromApi,
+  // Nothing known yet: serve zeros rather than fail
+  fallback: () => ({ ...EMPTY_STATS, lastUpdated: new Date() }),
+  revive: reviveStats,
+  // Announce the change if any figure differs
+  onUpdate: (previous, current) => {
+    const figures = (s: MarketingStats) => JSON.stringify({ ...s, lastUpdated: undefined });
+    if (!previous || figures(previous) !== figures(current)) {
+      contentEvents.emit("statsChanged", previous, current);
+    }
+  },
+});
 
-function isStatsCacheValid(): boolean {
-  if (!cachedStats || !lastStatsFetchTime) return false;
-  return Date.now() - lastStatsFetchTime.getTime() < STATS_CACHE_DURATION_MS;
+function reviveStats(data: unknown): MarketingStats | null {
+  const stats = data as MarketingStats | null;
+  if (!stats || !Array.isArray(stats.networks) || !stats.tokenSupply) return null;
+  return { ...stats, lastUpdated: new Date(stats.lastUpdated) };
 }
 
 // ---------------------------------------------------------------------------
@@ -80,6 +99,11 @@ const AXIOS_CONFIG = {
   timeout: 15000,
 };
 
+/** Full URL of a SODAX API endpoint on the configured base URL */
+function apiUrl(path: string): string {
+  return `${getConfig().sources.stats.apiBaseUrl}${path}`;
+}
+
 /** Human-readable chain names */
 const CHAIN_NAMES: Record<string, string> = {
   sonic: "Sonic",
@@ -107,30 +131,30 @@ function getChainName(chainId: string): string {
 // Fetch functions
 // ---------------------------------------------------------------------------
 
-async function fetchNetworks(): Promise<NetworkInfo[]> {
+async function fetchNetworks(): Promise<NetworkInfo[] | null> {
   try {
-    const response = await axios.get<string[]>(`${SODAX_API_BASE_URL}/config/spoke/chains`, AXIOS_CONFIG);
+    const response = await axios.get<string[]>(apiUrl("/config/spoke/chains"), AXIOS_CONFIG);
     return response.data.map((id) => ({
       id,
       name: getChainName(id),
     }));
   } catch (error) {
     console.error("Error fetching networks:", error);
-    return [];
+    return null;
   }
 }
 
-async function fetchPartners(): Promise<PartnerInfo[]> {
+async function fetchPartners(): Promise<PartnerInfo[] | null> {
   try {
-    const response = await axios.get<{ partners: string[] }>(`${SODAX_API_BASE_URL}/partners`, AXIOS_CONFIG);
+    const response = await axios.get<{ partners: string[] }>(apiUrl("/partners"), AXIOS_CONFIG);
     return response.data.partners.map((address) => ({ address }));
   } catch (error) {
     console.error("Error fetching partners:", error);
-    return [];
+    return null;
   }
 }
 
-async function fetchTokenSupply(): Promise<TokenSupply> {
+async function fetchTokenSupply(): Promise<TokenSupply | null> {
   try {
     const response = await axios.get<{
       totalSupply: string;
@@ -138,7 +162,7 @@ async function fetchTokenSupply(): Promise<TokenSupply> {
       lockedSupply: string;
       daoFund?: string;
       block?: string;
-    }>(`${SODAX_API_BASE_URL}/sodax/supply`, AXIOS_CONFIG);
+    }>(apiUrl("/sodax/supply"), AXIOS_CONFIG);
 
     return {
       totalSupply: response.data.totalSupply,
@@ -149,15 +173,11 @@ async function fetchTokenSupply(): Promise<TokenSupply> {
     };
   } catch (error) {
     console.error("Error fetching token supply:", error);
-    return {
-      totalSupply: "0",
-      circulatingSupply: "0",
-      lockedSupply: "0",
-    };
+    return null;
   }
 }
 
-async function fetchMoneyMarketAssets(): Promise<MoneyMarketAsset[]> {
+async function fetchMoneyMarketAssets(): Promise<MoneyMarketAsset[] | null> {
   try {
     const response = await axios.get<
       Array<{
@@ -168,7 +188,7 @@ async function fetchMoneyMarketAssets(): Promise<MoneyMarketAsset[]> {
         totalSuppliers: number;
         totalBorrowers: number;
       }>
-    >(`${SODAX_API_BASE_URL}/moneymarket/asset/all`, AXIOS_CONFIG);
+    >(apiUrl("/moneymarket/asset/all"), AXIOS_CONFIG);
 
     return response.data.map((asset) => ({
       symbol: asset.symbol,
@@ -180,17 +200,17 @@ async function fetchMoneyMarketAssets(): Promise<MoneyMarketAsset[]> {
     }));
   } catch (error) {
     console.error("Error fetching money market assets:", error);
-    return [];
+    return null;
   }
 }
 
-async function fetchRecentIntentsCount(): Promise<number> {
+async function fetchRecentIntentsCount(): Promise<number | null> {
   try {
-    const response = await axios.get<{ total: number }>(`${SODAX_API_BASE_URL}/solver/orderbook?limit=1`, AXIOS_CONFIG);
+    const response = await axios.get<{ total: number }>(apiUrl("/solver/orderbook?limit=1"), AXIOS_CONFIG);
     return response.data.total || 0;
   } catch (error) {
     console.error("Error fetching orderbook total:", error);
-    return 0;
+    return null;
   }
 }
 
@@ -198,58 +218,55 @@ async function fetchRecentIntentsCount(): Promise<number> {
 // Main fetch
 // ---------------------------------------------------------------------------
 
-export async function fetchMarketingStats(forceRefresh = false): Promise<MarketingStats> {
-  if (!forceRefresh && isStatsCacheValid() && cachedStats) {
-    return cachedStats;
-  }
-
-  try {
-    const [networks, partners, tokenSupply, moneyMarketAssets, recentIntentsCount] = await Promise.all([
-      fetchNetworks(),
-      fetchPartners(),
-      fetchTokenSupply(),
-      fetchMoneyMarketAssets(),
-      fetchRecentIntentsCount(),
-    ]);
-
-    const stats: MarketingStats = {
-      networks,
-      networkCount: networks.length,
-      partners,
-      partnerCount: partners.length,
-      tokenSupply,
-      moneyMarketAssets,
-      recentIntentsCount,
-      lastUpdated: new Date(),
-    };
+const EMPTY_STATS: Omit<MarketingStats, "lastUpdated"> = {
+  networks: [],
+  networkCount: 0,
+  partners: [],
+  partnerCount: 0,
+  tokenSupply: { totalSupply: "0", circulatingSupply: "0", lockedSupply: "0" },
+  moneyMarketAssets: [],
+  recentIntentsCount: 0,
+};
 
-    cachedStats = stats;
-    lastStatsFetchTime = new Date();
-    console.error(
-      `Marketing stats fetched at ${lastStatsFetchTime.toISOString()} — ` +
-        `${stats.networkCount} networks, ${stats.partnerCount} partners`
-    );
-    return stats;
-  } catch (error) {
-    console.error("Error fetching marketing stats:", error);
+/**
+ * Marketing stats. Expired figures are returned immediately while a
+ * background refresh runs; only a cold start (or a forced refresh) waits
+ * for the API.
+ */
+export async function fetchMarketingStats(forceRefresh = false): Promise<MarketingStats> {
+  return statsCache.get(forceRefresh);
+}
 
-    if (cachedStats) {
-      console.error("Returning cached stats due to fetch error");
-      return cachedStats;
-    }
+async function loadStatsFromApi(previous: MarketingStats | null): Promise<MarketingStats> {
+  const [networks, partners, tokenSupply, moneyMarketAssets, recentIntentsCount] = await Promise.all([
+    fetchNetworks(),
+    fetchPartners(),
+    fetchTokenSupply(),
+    fetchMoneyMarketAssets(),
+    fetchRecentIntentsCount(),
+  ]);
+
+  const results = [networks, partners, tokenSupply, moneyMarketAssets, recentIntentsCount];
+  if (results.every((result) => result === null)) throw new Error("SODAX API unavailable");
+
+  // Endpoints that failed keep their last known value
+  const known = previous ?? EMPTY_STATS;
+  const stats: MarketingStats = {
+    networks: networks ?? known.networks,
+    networkCount: (networks ?? known.networks).length,
+    partners: partners ?? known.partners,
+    partnerCount: (partners ?? known.partners).length,
+    tokenSupply: tokenSupply ?? known.tokenSupply,
+    moneyMarketAssets: moneyMarketAssets ?? known.moneyMarketAssets,
+    recentIntentsCount: recentIntentsCount ?? known.recentIntentsCount,
+    lastUpdated: new Date(),
+  };
 
-    // Return empty stats
-    return {
-      networks: [],
-      networkCount: 0,
-      partners: [],
-      partnerCount: 0,
-      tokenSupply: { totalSupply: "0", circulatingSupply: "0", lockedSupply: "0" },
-      moneyMarketAssets: [],
-      recentIntentsCount: 0,
-      lastUpdated: new Date(),
-    };
-  }
+  console.error(
+    `Marketing stats fetched at ${stats.lastUpdated.toISOString()} — ` +
+      `${stats.networkCount} networks, ${stats.partnerCount} partners`
+  );
+  return stats;
 }
 
 // ---------------------------------------------------------------------------
@@ -299,10 +316,11 @@ export async function getMoneyMarketAssets(): Promise<MoneyMarketAsset[]> {
 
 export async function refreshStats(): Promise<{ success: boolean; message: string }> {
   try {
-    const stats = await fetchMarketingStats(true);
+    const { value: stats, fresh, error } = await statsCache.refresh();
+    if (!fresh) return { success: false, message: formatRefreshFailure(error, statsCache.status()) };
     return {
       success: true,
-      message: `Stats refreshed at ${lastStatsFetchTime?.toISOString()} — ${stats.networkCount} networks, ${stats.partnerCount} partners`,
+      message: `Stats refreshed at ${statsCache.status().lastUpdated} — ${stats.networkCount} networks, ${stats.partnerCount} partners`,
     };
   } catch (error) {
     return {
@@ -311,3 +329,7 @@ export async function refreshStats(): Promise<{ success: boolean; message: strin
     };
   }
 }
+
+export function getStatsCacheStatus(): CacheStatus {
+  return statsCache.status();
+}
@@ -0,0 +1,121 @@
+/**
+ * Text Matching Helpers
+ *
+ * Typo-tolerant and synonym-aware matching shared by glossary lookup and the
+ * search services: edit distance, trigram similarity, "did you mean"
+ * suggestions, synonym expansion and safe regex construction from user input.
+ */
+
+import { SEARCH_SYNONYMS } from "../constants.js";
+
+/** Escape user input for literal use inside a RegExp */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Lowercase and strip everything but letters and digits ("Money-Market" → "moneymarket") */
+export function normalizeTerm(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+/** URL-safe slug ("Voice & Tone" → "voice-tone") */
+export function slugify(value: string): string {
+  return (
+    value
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, "-")
+      .replace(/^-+|-+$/g, "") || "untitled"
+  );
+}
+
+/**
+ * Regex source matching a word or phrase literally, treating hyphens and
+ * whitespace as interchangeable ("money-market" matches "money market").
+ */
+export function flexiblePattern(phrase: string): string {
+  return phrase
+    .trim()
+    .split(/[\s-]+/)
+    .filter(Boolean)
+    .map(escapeRegExp)
+    .join("[\\s-]?");
+}
+
+/** Levenshtein edit distance */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function trigrams(value: string): Set<string> {
+  const padded = `  ${value} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) grams.add(padded.slice(i, i + 3));
+  return grams;
+}
+
+/** Dice coefficient over character trigrams (0–1) */
+export function trigramSimilarity(a: string, b: string): number {
+  const ta = trigrams(a);
+  const tb = trigrams(b);
+  let shared = 0;
+  for (const gram of ta) if (tb.has(gram)) shared++;
+  return (2 * shared) / (ta.size + tb.size);
+}
+
+/** Similarity between two strings (0–1), combining edit distance and trigrams */
+export function similarity(a: string, b: string): number {
+  const na = normalizeTerm(a);
+  const nb = normalizeTerm(b);
+  if (!na || !nb) return 0;
+  const editScore = 1 - levenshtein(na, nb) / Math.max(na.length, nb.length);
+  return Math.max(editScore, trigramSimilarity(na, nb));
+}
+
+/** Candidates most similar to the query, best first */
+export function closestMatches(
+  query: string,
+  candidates: Iterable<string>,
+  { threshold = 0.6, limit = 3 }: { threshold?: number; limit?: number } = {}
+): { value: string; score: number }[] {
+  const scored: { value: string; score: number }[] = [];
+  for (const value of new Set(candidates)) {
+    const score = similarity(query, value);
+    if (score >= threshold) scored.push({ value, score });
+  }
+  return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Synonyms of any word or phrase in the text that appears in the synonym
+ * table (e.g. "DEX" → "AMM", "decentralized exchange"). Terms already present
+ * in the text are not repeated.
+ */
+export function expandSynonyms(text: string): string[] {
+  const normalizedText = ` ${text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ")} `;
+  const expansions = new Set<string>();
+
+  for (const group of SEARCH_SYNONYMS) {
+    const present = group.filter((term) => normalizedText.includes(` ${term.toLowerCase().replace(/-/g, " ")} `));
+    if (present.length === 0) continue;
+    for (const term of group) {
+      if (!present.includes(term)) expansions.add(term);
+    }
+  }
+
+  return [...expansions];
+}
@@ -0,0 +1,212 @@
+/**
+ * Brand Assets MCP Tools
+ *
+ * Tool definitions for finding the right SODAX logo, symbol, token image or
+ * brand color, with usage rules from the Brand Bible.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { getBrandAssetCatalogue, readBrandAssetImage } from "../services/brandAssets.js";
+import type { AssetKind, BrandAsset, BrandColor } from "../services/brandAssets.js";
+import { checkContrast, matchPalette, normalizeHex } from "../services/colorContrast.js";
+import type { ContrastCheck, PaletteMatch } from "../services/colorContrast.js";
+import { BRAND_ASSETS } from "../constants.js";
+
+const BACKGROUND_LABELS = {
+  dark: "Dark backgrounds only",
+  light: "White or light backgrounds only",
+  any: "Any background"
+} as const;
+
+function formatAsset(asset: BrandAsset): string {
+  let md = `## ${asset.name}\n\n`;
+  md += `**ID:** \`${asset.id}\` · **Kind:** ${asset.kind} · **Variant:** ${asset.variant}\n`;
+  md += `**Background:** ${BACKGROUND_LABELS[asset.background]}\n\n`;
+  md += `| Format | Dimensions | Size | URL |\n`;
+  md += `|--------|------------|------|-----|\n`;
+  for (const file of asset.files) {
+    const dimensions = file.width && file.height ? `${file.width}×${file.height}` : "—";
+    md += `| ${file.format.toUpperCase()} | ${dimensions} | ${(file.bytes / 1024).toFixed(1)} KB | ${file.url} |\n`;
+  }
+  md += `\n`;
+  if (asset.usageRules.length > 0) {
+    md += `**Usage rules (Brand Bible):**\n${asset.usageRules.map(r => `- ${r}`).join("\n")}\n\n`;
+  }
+  md += `---\n\n`;
+  return md;
+}
+
+function formatColor(color: BrandColor): string {
+  let md = `- **${color.name}** \`${color.hex}\` (rgb ${color.rgb.join(", ")})\n`;
+  for (const rule of color.usageRules) md += `  - ${rule}\n`;
+  return md;
+}
+
+function formatPalette(match: PaletteMatch): string {
+  return match.onPalette
+    ? `on-palette (${match.nearest.name})`
+    : `off-palette — nearest: ${match.nearest.name} \`${match.nearest.hex}\` (ΔE ${match.nearest.deltaE})`;
+}
+
+const passFail = (pass: boolean) => (pass ? "✅" : "❌");
+
+function formatContrastRow(check: ContrastCheck): string {
+  return `| \`${check.foreground.hex}\` on \`${check.background.hex}\` | ${check.ratio.toFixed(2)}:1 | ` +
+    `${passFail(check.aa.normalText)} | ${passFail(check.aa.largeText)} | ` +
+    `${passFail(check.aaa.normalText)} | ${passFail(check.aaa.largeText)} |\n`;
+}
+
+/**
+ * Register all brand asset tools with the MCP server
+ */
+export function registerBrandAssetTools(server: McpServer): void {
+
+  // Tool 1: Get Brand Assets
+  server.tool(
+    "sodax_get_brand_assets",
+    "List official SODAX brand assets — logos, symbol, SODA token icon, social preview image and brand colors — with variant, background suitability, formats (SVG/PNG), dimensions, public URL and usage rules from the Brand Bible. Pass assetId with includeImage to get the image itself. Use this instead of guessing which logo variant to link.",
+    {
+      assetId: z.enum(BRAND_ASSETS.map(a => a.id) as [string, ...string[]]).optional()
+        .describe("Return a single asset by ID"),
+      kind: z.enum(["logo", "symbol", "token", "social", "color"]).optional()
+        .describe("Filter by asset kind"),
+      background: z.enum(["dark", "light"]).optional()
+        .describe("Only assets suitable for this background"),
+      includeImage: z.boolean().optional()
+        .describe("Include the image as MCP image content (requires assetId; default: false)"),
+      imageFormat: z.enum(["png", "svg"]).optional()
+        .describe("Image format when includeImage is set (default: png)"),
+      format: z.enum(["json", "markdown"]).optional().describe("Response format (default: markdown)")
+    },
+    async ({ assetId, kind, background, includeImage = false, imageFormat = "png", format = "markdown" }) => {
+      const catalogue = await getBrandAssetCatalogue({ kind: kind as AssetKind | "color" | undefined, background });
+      const assets = assetId ? catalogue.assets.filter(a => a.id === assetId) : catalogue.assets;
+      const colors = assetId ? [] : catalogue.colors;
+
+      if (includeImage && !assetId) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: `includeImage requires assetId. Available assets: ${BRAND_ASSETS.map(a => a.id).join(", ")}`
+          }],
+          isError: true
+        };
+      }
+
+      if (assets.length === 0 && colors.length === 0) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: `No brand assets match the given filters. Available assets: ${BRAND_ASSETS.map(a => `${a.id} (${a.kind}, ${a.background})`).join(", ")}`
+          }]
+        };
+      }
+
+      const image = includeImage && assetId ? await readBrandAssetImage(assetId, imageFormat) : null;
+      const imageContent = image ? [{ type: "image" as const, data: image.data, mimeType: image.mimeType }] : [];
+
+      if (format === "json") {
+        return {
+          content: [
+            { type: "text" as const, text: JSON.stringify({ assets, colors }, null, 2) },
+            ...imageContent
+          ]
+        };
+      }
+
+      let markdown = `# SODAX Brand Assets\n\n`;
+      for (const asset of assets) {
+        markdown += formatAsset(asset);
+      }
+
+      if (colors.length > 0) {
+        markdown += `## Brand Colors\n\n`;
+        for (const color of colors) {
+          markdown += formatColor(color);
+        }
+        markdown += `\n`;
+      }
+
+      if (image && image.format !== imageFormat) {
+        markdown += `*${imageFormat.toUpperCase()} not available for this asset — returning ${image.format.toUpperCase()}.*\n\n`;
+      }
+      markdown += `*Link to the public URLs above rather than re-hosting or recoloring assets.*`;
+
+      return {
+        content: [{ type: "text" as const, text: markdown }, ...imageContent]
+      };
+    }
+  );
+
+  // Tool 2: Check Color Usage
+  server.tool(
+    "sodax_check_color_usage",
+    "Check design colors against WCAG 2.x and the SODAX palette. For each foreground/background pair, reports the contrast ratio and AA/AAA pass/fail for normal and large text. For each color, reports whether it is on-palette (cherry, cream, espresso, accent) and the nearest brand color by perceptual distance (CIEDE2000) when it is not. A plain list of colors is checked pairwise.",
+    {
+      pairs: z.array(z.object({
+        foreground: z.string().describe("Text/foreground color, e.g. '#FFD54F'"),
+        background: z.string().describe("Background color, e.g. '#1A1A1A'")
+      })).optional().describe("Foreground/background pairs to check"),
+      colors: z.array(z.string()).max(10).optional()
+        .describe("Hex colors from a design; each is palette-checked and every pair is contrast-checked"),
+      format: z.enum(["json", "markdown"]).optional().describe("Response format (default: markdown)")
+    },
+    async ({ pairs = [], colors = [], format = "markdown" }) => {
+      const invalid = [...colors, ...pairs.flatMap(p => [p.foreground, p.background])].filter(c => !normalizeHex(c));
+      if (invalid.length > 0 || (pairs.length === 0 && colors.length === 0)) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: invalid.length > 0
+              ? `Invalid color(s): ${invalid.map(c => `"${c}"`).join(", ")}. Use hex like "#E53935" or "#FFF".`
+              : "Provide at least one foreground/background pair or a list of colors."
+          }],
+          isError: true
+        };
+      }
+
+      const listed = [...new Set(colors.map(c => normalizeHex(c)!))];
+      const checks = pairs.map(p => checkContrast(normalizeHex(p.foreground)!, normalizeHex(p.background)!));
+      for (let i = 0; i < listed.length; i++) {
+        for (let j = i + 1; j < listed.length; j++) checks.push(checkContrast(listed[i], listed[j]));
+      }
+      const palette = [...new Set([...listed, ...checks.flatMap(c => [c.foreground.hex, c.background.hex])])].map(matchPalette);
+
+      if (format === "json") {
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({ contrast: checks, palette }, null, 2)
+          }]
+        };
+      }
+
+      let markdown = `# Color Usage Check\n\n`;
+
+      if (checks.length > 0) {
+        markdown += `## Contrast (WCAG 2.x)\n\n`;
+        markdown += `| Pair | Ratio | AA normal | AA large | AAA normal | AAA large |\n`;
+        markdown += `|------|-------|-----------|----------|------------|-----------|\n`;
+        for (const check of checks) markdown += formatContrastRow(check);
+        markdown += `\n*Normal text needs 4.5:1 (AA) or 7:1 (AAA); large text (18pt, or 14pt bold) needs 3:1 (AA) or 4.5:1 (AAA).*\n\n`;
+
+        const failing = checks.filter(c => !c.aa.normalText && c.suggestion);
+        for (const check of failing) {
+          markdown += `- \`${check.foreground.hex}\` on \`${check.background.hex}\` fails AA for body text — ` +
+            `try ${check.suggestion!.name} \`${check.suggestion!.hex}\` (${check.suggestion!.ratio.toFixed(2)}:1)\n`;
+        }
+        if (failing.length > 0) markdown += `\n`;
+      }
+
+      markdown += `## Palette\n\n`;
+      for (const match of palette) {
+        markdown += `- \`${match.hex}\`: ${formatPalette(match)}\n`;
+      }
+
+      return {
+        content: [{ type: "text" as const, text: markdown }]
+      };
+    }
+  );
+}
@@ -8,15 +8,53 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import {
   getBrandOverview,
-  getSection,
-  getSubsection,
   listSubsections,
+  resolveSection,
+  resolveSubsection,
   searchBrandBible,
+  suggestBrandBibleQuery,
   refreshBrandBible,
   getCacheStatus
 } from "../services/brandBible.js";
-import { BRAND_SECTIONS } from "../constants.js";
+import { getBrandBibleChanges, listSnapshots } from "../services/brandBibleHistory.js";
+import { ExportError, renderBrandBibleHtml, renderPdf } from "../services/brandBibleExport.js";
+import { listBrandRules } from "../services/brandRules.js";
+import type { BrandRule } from "../services/brandRules.js";
+import { formatCacheAge } from "../services/cacheManager.js";
+import { getMessagingFramework, hasMessaging, MESSAGING_FIELDS } from "../services/messaging.js";
+import type { MessagingStatement } from "../services/messaging.js";
+import { PUBLIC_BASE_URL } from "../constants.js";
 import { ResponseFormat } from "../types.js";
+import type { ResolvedRef } from "../services/brandBible.js";
+
+/** Note shown when a reference was renumbered or renamed since it was handed out */
+function renumberedNote(ref: string, resolved: ResolvedRef<unknown>): string {
+  const moved = resolved.renumbered;
+  if (!moved) return "";
+  return resolved.matchedBy === "redirect"
+    ? `> "${ref}" moved on ${moved.recordedAt.slice(0, 10)} — showing "${moved.title}", now ${moved.currentId} (\`${moved.currentSlug}\`).\n\n`
+    : `> "${ref}" previously referred to "${moved.title}", now ${moved.currentId} (\`${moved.currentSlug}\`). Use slugs for stable references.\n\n`;
+}
+
+/** A messaging statement as a list item, with its audience/product tags */
+function formatStatement(statement: MessagingStatement): string {
+  const tags = [statement.audience, statement.product].filter(Boolean).join(", ");
+  const title = statement.title ? `**${statement.title}:** ` : "";
+  return `- ${title}"${statement.text}"${tags ? ` — *${tags}*` : ""}\n`;
+}
+
+function formatRule(rule: BrandRule): string {
+  let md = `- ${rule.kind === "do" ? "✅ **Do**" : "❌ **Don't**"} — ${rule.text} *(\`${rule.id}\`)*\n`;
+  for (const example of rule.examples) md += `  - *e.g.* ${example}\n`;
+  return md;
+}
+
+const MESSAGING_HEADINGS = {
+  taglines: "Taglines",
+  valuePropositions: "Value Propositions",
+  proofPoints: "Proof Points",
+  keyMessages: "Key Messages"
+} as const;
 
 /**
  * Register all brand bible tools with the MCP server
@@ -51,13 +89,14 @@ export function registerBrandBibleTools(server: McpServer): void {
       
       for (const section of overview.sections) {
         markdown += `### ${section.id}. ${section.title}\n`;
+        markdown += `   - ID: \`${section.slug}\`\n`;
         if (section.subsectionCount > 0) {
           markdown += `   - ${section.subsectionCount} subsection(s)\n`;
         }
         markdown += `\n`;
       }
 
-      markdown += `---\n*Cache: ${cacheStatus.cached ? "Valid" : "Expired"} | Expires in: ${cacheStatus.expiresIn}s*`;
+      markdown += `---\n${formatCacheAge(cacheStatus)}`;
 
       return {
         content: [{ type: "text" as const, text: markdown }]
@@ -68,45 +107,55 @@ export function registerBrandBibleTools(server: McpServer): void {
   // Tool 2: Get Section
   server.tool(
     "sodax_get_section",
-    "Get a specific section of the SODAX Brand Bible by section number (1-6). Sections include: 1-Introduction, 2-Voice & Tone, 3-Visual Identity, 4-Messaging, 5-Content Guidelines, 6-Applications.",
+    "Get a specific section of the SODAX Brand Bible by number (e.g. '3'), stable slug (e.g. 'visual-identity'), Notion block ID or title. Slugs and block IDs survive reordering in Notion; numbers follow the current order, with a notice if they were renumbered.",
     {
-      sectionId: z.string().describe("Section number (1-6)"),
+      sectionId: z.string().describe("Section number, slug, Notion block ID or title (e.g. '3', 'visual-identity')"),
       format: z.enum(["json", "markdown"]).optional().describe("Response format (default: markdown)")
     },
     async ({ sectionId, format = "markdown" }) => {
-      const section = await getSection(sectionId);
+      const resolved = await resolveSection(sectionId);
       
-      if (!section) {
+      if (!resolved) {
+        const overview = await getBrandOverview();
         return {
           content: [{
             type: "text" as const,
-            text: `Section "${sectionId}" not found. Valid sections are 1-6:\n${Object.entries(BRAND_SECTIONS).map(([id, title]) => `${id}: ${title}`).join("\n")}`
+            text: `Section "${sectionId}" not found. Available sections:\n${overview.sections.map(s => `${s.id}: ${s.title} (\`${s.slug}\`)`).join("\n")}`
           }],
           isError: true
         };
       }
 
+      const section = resolved.item;
+
       if (format === "json") {
         return {
           content: [{
             type: "text" as const,
-            text: JSON.stringify(section, null, 2)
+            text: JSON.stringify({ ...section, matchedBy: resolved.matchedBy, renumbered: resolved.renumbered }, null, 2)
           }]
         };
       }
 
       // Markdown format
       let markdown = `# Section ${section.id}: ${section.title}\n\n`;
+      markdown += renumberedNote(sectionId, resolved);
+      markdown += `*ID: \`${section.slug}\`${section.blockId ? ` · Block: ${section.blockId}` : ""}*\n\n`;
       markdown += section.content + "\n\n";
       
       if (section.subsections.length > 0) {
         markdown += `## Subsections\n\n`;
         for (const sub of section.subsections) {
-          markdown += `### ${sub.id} ${sub.title}\n\n`;
+          markdown += `### ${sub.id} ${sub.title}\n`;
+          markdown += `*ID: \`${sub.slug}\`*\n\n`;
           markdown += sub.content + "\n\n";
         }
       }
 
+      if (/messaging/i.test(section.title)) {
+        markdown += `---\n*Use sodax_get_messaging for the positioning statement, taglines and value propositions as separate fields, filterable by audience or product.*`;
+      }
+
       return {
         content: [{ type: "text" as const, text: markdown }]
       };
@@ -116,36 +165,40 @@ export function registerBrandBibleTools(server: McpServer): void {
   // Tool 3: Get Subsection
   server.tool(
     "sodax_get_subsection",
-    "Get a specific subsection of the SODAX Brand Bible by ID (e.g., '3.1' for Visual Identity > Logo Guidelines).",
+    "Get a specific subsection of the SODAX Brand Bible by number (e.g. '3.1'), stable slug (e.g. 'visual-identity/color-palette'), Notion block ID or title. Slugs and block IDs survive reordering in Notion; numbers follow the current order, with a notice if they were renumbered.",
     {
-      subsectionId: z.string().describe("Subsection ID in format 'X.Y' (e.g., '3.1')"),
+      subsectionId: z.string().describe("Subsection number, slug, Notion block ID or title (e.g. '3.1', 'visual-identity/color-palette')"),
       format: z.enum(["json", "markdown"]).optional().describe("Response format (default: markdown)")
     },
     async ({ subsectionId, format = "markdown" }) => {
-      const subsection = await getSubsection(subsectionId);
+      const resolved = await resolveSubsection(subsectionId);
       
-      if (!subsection) {
+      if (!resolved) {
         const allSubsections = await listSubsections();
         return {
           content: [{
             type: "text" as const,
-            text: `Subsection "${subsectionId}" not found.\n\nAvailable subsections:\n${allSubsections.map(s => `${s.id}: ${s.title} (in ${s.parentSection})`).join("\n")}`
+            text: `Subsection "${subsectionId}" not found.\n\nAvailable subsections:\n${allSubsections.map(s => `${s.id}: ${s.title} (\`${s.slug}\`, in ${s.parentSection})`).join("\n")}`
           }],
           isError: true
         };
       }
 
+      const subsection = resolved.item;
+
       if (format === "json") {
         return {
           content: [{
             type: "text" as const,
-            text: JSON.stringify(subsection, null, 2)
+            text: JSON.stringify({ ...subsection, matchedBy: resolved.matchedBy, renumbered: resolved.renumbered }, null, 2)
           }]
         };
       }
 
       // Markdown format
       let markdown = `# ${subsection.id} ${subsection.title}\n\n`;
+      markdown += renumberedNote(subsectionId, resolved);
+      markdown += `*ID: \`${subsection.slug}\`${subsection.blockId ? ` · Block: ${subsection.blockId}` : ""}*\n\n`;
       markdown += subsection.content;
 
       return {
@@ -165,24 +218,28 @@ export function registerBrandBibleTools(server: McpServer): void {
     async ({ query, maxResults = 5 }) => {
       const results = await searchBrandBible(query, maxResults);
       
+      const corrected = await suggestBrandBibleQuery(query);
+
       if (results.length === 0) {
         return {
           content: [{
             type: "text" as const,
-            text: `No results found for "${query}". Try different keywords or use sodax_get_marketing_overview to see available sections.`
+            text: `No results found for "${query}".${corrected ? ` Did you mean "${corrected}"?` : ""} Try different keywords or use sodax_get_marketing_overview to see available sections.`
           }]
         };
       }
 
       let markdown = `# Search Results for "${query}"\n\n`;
+      if (corrected) markdown += `*Including results for "${corrected}"*\n\n`;
       markdown += `Found ${results.length} result(s):\n\n`;
       
       for (const result of results) {
         if (result.subsectionId) {
           markdown += `## ${result.subsectionId} ${result.subsectionTitle}\n`;
-          markdown += `*In Section ${result.sectionId}: ${result.sectionTitle}*\n\n`;
+          markdown += `*In Section ${result.sectionId}: ${result.sectionTitle} · ID: \`${result.subsectionSlug}\`*\n\n`;
         } else {
-          markdown += `## Section ${result.sectionId}: ${result.sectionTitle}\n\n`;
+          markdown += `## Section ${result.sectionId}: ${result.sectionTitle}\n`;
+          markdown += `*ID: \`${result.sectionSlug}\`*\n\n`;
         }
         markdown += `${result.matchedContent}\n\n`;
         markdown += `---\n\n`;
@@ -217,7 +274,7 @@ export function registerBrandBibleTools(server: McpServer): void {
   // Tool 6: List Subsections
   server.tool(
     "sodax_list_subsections",
-    "List all subsections in the SODAX Brand Bible with their IDs. Useful for finding specific content to retrieve.",
+    "List all subsections in the SODAX Brand Bible with their numbers and stable slugs. Useful for finding specific content to retrieve.",
     {
       format: z.enum(["json", "markdown"]).optional().describe("Response format (default: markdown)")
     },
@@ -242,10 +299,256 @@ export function registerBrandBibleTools(server: McpServer): void {
           currentParent = sub.parentSection;
           markdown += `## ${currentParent}\n\n`;
         }
-        markdown += `- **${sub.id}**: ${sub.title}\n`;
+        markdown += `- **${sub.id}**: ${sub.title} (\`${sub.slug}\`)\n`;
+      }
+
+      markdown += `\n---\n*Use sodax_get_subsection with any number or slug to get full content. Slugs stay valid when sections are reordered.*`;
+
+      return {
+        content: [{ type: "text" as const, text: markdown }]
+      };
+    }
+  );
+
+  // Tool 7: Brand Bible Changes
+  server.tool(
+    "sodax_brand_bible_changes",
+    "List what changed in the SODAX Brand Bible between two snapshots: sections and subsections added, removed or edited, with a line diff for each edit. Use this to check whether previously approved copy may conflict with updated guidelines.",
+    {
+      since: z.string().optional().describe("Snapshot ID or date (e.g. '2025-01-31'). Defaults to the snapshot before the latest one."),
+      until: z.string().optional().describe("Snapshot ID or date to compare up to. Defaults to the latest snapshot."),
+      format: z.enum(["json", "markdown"]).optional().describe("Response format (default: markdown)")
+    },
+    async ({ since, until, format = "markdown" }) => {
+      let result;
+      try {
+        result = await getBrandBibleChanges(since, until);
+      } catch (error) {
+        const snapshots = await listSnapshots();
+        return {
+          content: [{
+            type: "text" as const,
+            text: `${error instanceof Error ? error.message : "Unknown error"}\n\nAvailable snapshots:\n${snapshots.map(s => `- ${s.id} (first seen ${s.firstSeen})`).join("\n") || "_none_"}`
+          }],
+          isError: true
+        };
+      }
+
+      if (format === "json") {
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      }
+
+      let markdown = `# Brand Bible Changes\n\n`;
+      markdown += `**From:** \`${result.from.id}\` (first seen ${result.from.firstSeen})\n`;
+      markdown += `**To:** \`${result.to.id}\` (first seen ${result.to.firstSeen})\n\n`;
+
+      if (result.changes.length === 0) {
+        markdown += `No changes between these snapshots.`;
+      }
+
+      for (const change of result.changes) {
+        const label = change.kind === "section" ? `Section ${change.id}` : change.id;
+        const parent = change.parentTitle ? ` *(in ${change.parentTitle})*` : "";
+        markdown += `## ${change.type.toUpperCase()}: ${label} ${change.title}${parent}\n\n`;
+        if (change.previousTitle) {
+          markdown += `*Renamed from "${change.previousTitle}"*\n\n`;
+        }
+        if (change.diff) {
+          markdown += "```diff\n" + change.diff + "\n```\n\n";
+        }
+      }
+
+      return {
+        content: [{ type: "text" as const, text: markdown }]
+      };
+    }
+  );
+
+  // Tool 8: Export Brand Bible
+  server.tool(
+    "sodax_export_brand_bible",
+    "Export the SODAX Brand Bible, or a single section of it (e.g. 'visual-identity' to share with an agency), as a styled standalone HTML document with a table of contents and the SODAX logo, or as a print-ready PDF. The document is returned as an embedded file along with its download URL.",
+    {
+      section: z.string().optional().describe("Section number, slug or title to export on its own (default: the whole Brand Bible)"),
+      format: z.enum(["html", "pdf"]).optional().describe("Document format (default: html)")
+    },
+    async ({ section, format = "html" }) => {
+      const document = await renderBrandBibleHtml(section);
+
+      if (!document) {
+        const overview = await getBrandOverview();
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Section "${section}" not found. Available sections:\n${overview.sections.map(s => `${s.id}: ${s.title} (\`${s.slug}\`)`).join("\n")}`
+          }],
+          isError: true
+        };
+      }
+
+      // Link by slug, which survives reordering in Notion
+      const query = document.section ? `?section=${encodeURIComponent(document.section)}` : "";
+      const uri = `${PUBLIC_BASE_URL}/export/brand-bible.${format}${query}`;
+      const summary = `${document.title} — ${document.sectionCount} section(s), content as of ${document.lastUpdated}.\n` +
+        `File: ${document.fileName}.${format} · Download: ${uri}`;
+
+      if (format === "html") {
+        return {
+          content: [
+            { type: "text" as const, text: summary },
+            { type: "resource" as const, resource: { uri, mimeType: "text/html", text: document.html } }
+          ]
+        };
+      }
+
+      try {
+        const pdf = await renderPdf(document.html);
+        return {
+          content: [
+            { type: "text" as const, text: summary },
+            { type: "resource" as const, resource: { uri, mimeType: "application/pdf", blob: pdf.toString("base64") } }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: error instanceof ExportError ? error.message : `PDF export failed: ${error instanceof Error ? error.message : String(error)}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Tool 9: Get Messaging
+  server.tool(
+    "sodax_get_messaging",
+    "Get the SODAX Messaging Framework as structured fields: the positioning statement, taglines, value propositions, proof points and key messages, each with the audience or product it targets. Filter by audience (e.g. 'developers') or product. Quote these statements verbatim in copy — do not paraphrase the positioning statement or taglines.",
+    {
+      audience: z.string().optional().describe("Only statements for this audience, plus those for everyone (e.g. 'developers', 'institutions')"),
+      product: z.string().optional().describe("Only statements about this product, plus general ones"),
+      field: z.enum(MESSAGING_FIELDS).optional().describe("Return a single field (default: all)"),
+      format: z.enum(["json", "markdown"]).optional().describe("Response format (default: markdown)")
+    },
+    async ({ audience, product, field, format = "markdown" }) => {
+      const framework = await getMessagingFramework({ audience, product });
+
+      if (!framework) {
+        const overview = await getBrandOverview();
+        return {
+          content: [{
+            type: "text" as const,
+            text: `The Brand Bible has no Messaging Framework section. Available sections:\n${overview.sections.map(s => `${s.id}: ${s.title} (\`${s.slug}\`)`).join("\n")}`
+          }],
+          isError: true
+        };
+      }
+
+      if (format === "json") {
+        const { section, audiences, products } = framework;
+        const fields = field
+          ? { [field === "positioning" ? "positioningStatement" : field]: field === "positioning" ? framework.positioningStatement : framework[field] }
+          : framework;
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({ ...fields, section, audiences, products, filter: { audience, product } }, null, 2)
+          }]
+        };
+      }
+
+      let markdown = `# ${framework.section.title}\n\n`;
+      if (audience || product) {
+        markdown += `*Filtered to ${[audience && `audience "${audience}"`, product && `product "${product}"`].filter(Boolean).join(" and ")}, plus statements for everyone.*\n\n`;
+      }
+
+      if (!hasMessaging(framework)) {
+        markdown += `No positioning statement, taglines, value propositions, proof points or key messages were recognised${audience || product ? " for this filter" : ""}. `;
+        markdown += `Use sodax_get_section with \`${framework.section.slug}\` for the full text.\n`;
+        return { content: [{ type: "text" as const, text: markdown }] };
+      }
+
+      markdown += `> Quote these statements verbatim. Do not paraphrase the positioning statement or taglines.\n\n`;
+
+      if ((!field || field === "positioning") && framework.positioningStatement) {
+        markdown += `## Positioning Statement\n\n> ${framework.positioningStatement.text}\n\n`;
+        markdown += `*Source: ${framework.positioningStatement.source}*\n\n`;
+      }
+
+      for (const [key, heading] of Object.entries(MESSAGING_HEADINGS) as [keyof typeof MESSAGING_HEADINGS, string][]) {
+        if (field && field !== key) continue;
+        const statements = framework[key];
+        if (statements.length === 0) continue;
+        markdown += `## ${heading}\n\n${statements.map(formatStatement).join("")}\n`;
+      }
+
+      if (framework.audiences.length > 0 || framework.products.length > 0) {
+        markdown += `---\n`;
+        if (framework.audiences.length > 0) markdown += `**Audiences:** ${framework.audiences.join(", ")}\n`;
+        if (framework.products.length > 0) markdown += `**Products:** ${framework.products.join(", ")}\n`;
+      }
+
+      return {
+        content: [{ type: "text" as const, text: markdown }]
+      };
+    }
+  );
+
+  // Tool 10: List Brand Rules
+  server.tool(
+    "sodax_list_brand_rules",
+    "List the Do / Don't rules in the SODAX Brand Bible as structured rules (kind, text, examples, source subsection ID), extracted from Do/Don't lists, to-dos, callouts and 'Always'/'Never' statements. Filter by section or subsection (number, slug or title) and by kind. Use this to enumerate every rule instead of rereading whole sections.",
+    {
+      section: z.string().optional().describe("Section or subsection number, slug or title (e.g. '2', 'brand-voice-tone', '3.1'); default: all sections"),
+      kind: z.enum(["do", "dont"]).optional().describe("Only do's or only don'ts (default: both)"),
+      format: z.enum(["json", "markdown"]).optional().describe("Response format (default: markdown)")
+    },
+    async ({ section, kind, format = "markdown" }) => {
+      const result = await listBrandRules({ section, kind });
+
+      if (!result) {
+        const overview = await getBrandOverview();
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Section "${section}" not found. Available sections:\n${overview.sections.map(s => `${s.id}: ${s.title} (\`${s.slug}\`)`).join("\n")}`
+          }],
+          isError: true
+        };
+      }
+
+      if (format === "json") {
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      }
+
+      let markdown = `# Brand Rules${result.scope ? `: ${result.scope.id} ${result.scope.title}` : ""}\n\n`;
+      markdown += `**Rules:** ${result.rules.length} (${result.counts.do} do, ${result.counts.dont} don't)\n`;
+
+      if (result.rules.length === 0) {
+        markdown += `\nNo Do / Don't rules found${result.scope ? " in this section" : ""}.\n`;
+      }
+
+      let currentSource = "";
+      for (const rule of result.rules) {
+        if (rule.source.id !== currentSource) {
+          currentSource = rule.source.id;
+          markdown += `\n## ${rule.source.id} ${rule.source.title}\n\n`;
+        }
+        markdown += formatRule(rule);
       }
 
-      markdown += `\n---\n*Use sodax_get_subsection with any ID to get full content*`;
+      markdown += `\n---\n*Rule IDs are positional (section/rule number). Use sodax_get_subsection with a source ID for the surrounding guidance.*`;
 
       return {
         content: [{ type: "text" as const, text: markdown }]
@@ -0,0 +1,65 @@
+/**
+ * Cache MCP Tools
+ *
+ * Tool definitions for inspecting the content caches of the Brand Bible,
+ * glossary and stats services.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { formatAge, getAllCacheStatuses } from "../services/cacheManager.js";
+import type { CacheStatus } from "../services/cacheManager.js";
+
+function describeState(status: CacheStatus): string {
+  if (!status.lastUpdated) return "not loaded";
+  const state = status.stale ? "stale" : "fresh";
+  return status.refreshing ? `${state}, refreshing` : state;
+}
+
+function nextRefresh(status: CacheStatus): string {
+  if (status.origin === "snapshot") return "never (snapshot)";
+  return status.nextRefresh ?? "on next request";
+}
+
+function formatStatusRow(status: CacheStatus): string {
+  const age = status.ageSeconds === null ? "—" : formatAge(status.ageSeconds);
+  const error = status.lastError ? `${status.lastError.message} (${status.lastError.at})` : "—";
+  return `| ${status.label} | ${describeState(status)} | ${age} | ${status.origin ?? "—"} | ` +
+    `${formatAge(status.ttlSeconds)} | ${nextRefresh(status)} | ${error} |\n`;
+}
+
+/**
+ * Register cache tools with the MCP server
+ */
+export function registerCacheTools(server: McpServer): void {
+
+  // Tool 1: Cache Status
+  server.tool(
+    "sodax_cache_status",
+    "Report the cache state of every content source (Brand Bible, glossary, marketing stats): age of the cached data, whether it is stale, where it came from (live, disk cache or built-in fallback), TTL, next scheduled refresh and the last fetch error. Use this to judge how current an answer is or to diagnose Notion/API outages.",
+    {
+      format: z.enum(["json", "markdown"]).optional().describe("Response format (default: markdown)")
+    },
+    async ({ format = "markdown" }) => {
+      const statuses = getAllCacheStatuses();
+
+      if (format === "json") {
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify(statuses, null, 2) }]
+        };
+      }
+
+      let markdown = `# Content Cache Status\n\n`;
+      markdown += `| Source | State | Age | Origin | TTL | Next refresh | Last error |\n`;
+      markdown += `|--------|-------|-----|--------|-----|--------------|------------|\n`;
+      for (const status of statuses) {
+        markdown += formatStatusRow(status);
+      }
+      markdown += `\n*Stale data is served while a background refresh runs. Sources load on first use; "disk" means last-known content saved before a restart.*`;
+
+      return {
+        content: [{ type: "text" as const, text: markdown }]
+      };
+    }
+  );
+}
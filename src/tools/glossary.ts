@@ -1,7 +1,9 @@
 /**
  * Technical Glossary MCP Tools
  * 
- * Tool definitions for translating technical concepts for marketing teams.
+ * Tool definitions for translating technical concepts for marketing teams,
+ * annotating draft copy with glossary definitions, exploring how terms
+ * relate and auditing the glossary for gaps.
  * The glossary is sourced from two Notion pages:
  * - System Concepts (high-level ideas)
  * - System Components (concrete system parts)
@@ -10,19 +12,49 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import {
+  fetchGlossary,
   getGlossaryOverview,
   getAllTerms,
-  getTerm,
+  resolveTerm,
+  getTermDetail,
   searchGlossary,
   getTermsByTag,
   refreshGlossary,
-  translateTerm
+  suggestTerms,
+  translateTerm,
+  getGlossaryCacheStatus
 } from "../services/glossary.js";
-import type { GlossaryCategory, GlossaryTerm } from "../services/glossary.js";
+import { formatCacheAge } from "../services/cacheManager.js";
+import { annotateText } from "../services/glossaryAnnotation.js";
+import { auditGlossary, DEFAULT_SUMMARY_BUDGET } from "../services/glossaryAudit.js";
+import type { AuditIssueKind } from "../services/glossaryAudit.js";
+import { buildGlossaryGraph, neighbours, shortestPath, subgraph, toDot, toMermaid } from "../services/glossaryGraph.js";
+import type { GlossaryGraph, GraphEdgeReason } from "../services/glossaryGraph.js";
+import { PLAIN_LANGUAGE_AUDIENCES } from "../config.js";
+import type { PlainLanguageAudience } from "../config.js";
+import type { GlossaryCategory, GlossaryTerm, TermCandidate, TermResolution } from "../services/glossary.js";
 
 const categoryEnum = z.enum(["system-concept", "system-component"]).optional()
   .describe("Filter by category: 'system-concept' (high-level ideas) or 'system-component' (concrete system parts). Omit for all.");
 
+const AUDIENCE_LABELS: Record<PlainLanguageAudience, string> = {
+  retail: "retail users",
+  investor: "investors",
+  developer: "developers",
+  press: "press",
+};
+
+const AUDIT_HEADINGS: Record<AuditIssueKind, string> = {
+  "dropped-page": "Pages Missing From the Glossary",
+  "duplicate-title": "Duplicate Titles",
+  "near-duplicate-title": "Near-Duplicate Titles and Shared Aliases",
+  "missing-tags": "Terms Without Tags",
+  "long-summary": "Summaries Over Budget",
+  "tag-casing": "Inconsistent Tags",
+  "missing-owner": "Terms Without an Owner",
+  "missing-term": "Brand Bible Terms Missing From the Glossary",
+};
+
 /** Human-readable label for a category */
 function categoryLabel(cat: GlossaryCategory): string {
   return cat === "system-concept" ? "System Concept" : "System Component";
@@ -33,6 +65,9 @@ function formatTerm(term: GlossaryTerm): string {
   let md = `## ${term.title}\n\n`;
   md += `**Category:** ${categoryLabel(term.category)}\n\n`;
   md += `${term.summary}\n\n`;
+  if (term.aliases.length > 0) {
+    md += `**Also known as:** ${term.aliases.join(", ")}\n\n`;
+  }
   if (term.tags.length > 0) {
     md += `**Tags:** ${term.tags.map(t => `\`${t}\``).join(", ")}\n\n`;
   }
@@ -40,6 +75,68 @@ function formatTerm(term: GlossaryTerm): string {
   return md;
 }
 
+/** " Did you mean ...?" hint for an unmatched term, or an empty string */
+async function didYouMean(query: string): Promise<string> {
+  const suggestions = await suggestTerms(query);
+  return suggestions.length > 0 ? ` Did you mean ${suggestions.map(s => `"${s}"`).join(" or ")}?` : "";
+}
+
+/** Shift Markdown headings down, so a page body nests under the tool's own headings */
+function demoteHeadings(markdown: string, levels: number): string {
+  let inCode = false;
+  return markdown
+    .split("\n")
+    .map((line) => {
+      if (line.trim().startsWith("```")) inCode = !inCode;
+      return !inCode && /^#{1,6}\s/.test(line) ? `${"#".repeat(levels)}${line}`.replace(/^#{7,}/, "######") : line;
+    })
+    .join("\n");
+}
+
+/** How a candidate matched, e.g. 'alias "MM"', or an empty string for a title match */
+function matchNote(candidate: TermCandidate): string {
+  switch (candidate.matchedBy) {
+    case "alias": return `alias "${candidate.matched}"`;
+    case "synonym": return `synonym of "${candidate.matched}"`;
+    case "partial": return `partial match on "${candidate.matched}"`;
+    case "fuzzy": return `closest spelling "${candidate.matched}"`;
+    default: return "";
+  }
+}
+
+/** "mentions; shared tags: solver, routing" */
+function formatReasons(reasons: GraphEdgeReason[]): string {
+  const tags = reasons.filter(r => r.kind === "tag").map(r => r.label);
+  const other = reasons.filter(r => r.kind !== "tag").map(r => r.kind === "mention" ? `${r.from} mentions ${r.to}` : `${r.label} (Notion relation)`);
+  return [...other, ...(tags.length > 0 ? [`shared tags: ${tags.join(", ")}`] : [])].join("; ");
+}
+
+/** A graph as a fenced Mermaid or DOT diagram */
+function formatDiagram(graph: GlossaryGraph, format: "mermaid" | "dot", highlight: string[]): string {
+  return format === "mermaid"
+    ? `\`\`\`mermaid\n${toMermaid(graph, highlight)}\n\`\`\``
+    : `\`\`\`dot\n${toDot(graph, highlight)}\n\`\`\``;
+}
+
+/** Ranked list of the terms an ambiguous query could mean */
+function formatCandidates(query: string, resolution: TermResolution): string {
+  let md = `# "${query}" matches ${resolution.candidates.length} terms\n\n`;
+  md += `Which one did you mean?\n\n`;
+  resolution.candidates.forEach((c, i) => {
+    const note = matchNote(c);
+    md += `${i + 1}. **${c.term.title}** *(${categoryLabel(c.term.category)})*${note ? ` — ${note}` : ""}\n   ${c.term.summary}\n`;
+  });
+  md += `\n*Ask again with the exact title or an alias to get one term.*`;
+  return md;
+}
+
+/** Note listing the other terms a resolved query matched, or an empty string */
+function alsoMatchedNote(resolution: TermResolution): string {
+  const others = resolution.candidates.filter(c => c.term !== resolution.term);
+  if (others.length === 0) return "";
+  return `*Also matched: ${others.map(c => `${c.term.title}${matchNote(c) ? ` (${matchNote(c)})` : ""}`).join(", ")}*\n\n`;
+}
+
 /**
  * Register all glossary tools with the MCP server
  */
@@ -59,7 +156,7 @@ export function registerGlossaryTools(server: McpServer): void {
         return {
           content: [{
             type: "text" as const,
-            text: JSON.stringify(overview, null, 2)
+            text: JSON.stringify({ ...overview, cacheStatus: getGlossaryCacheStatus() }, null, 2)
           }]
         };
       }
@@ -75,6 +172,7 @@ export function registerGlossaryTools(server: McpServer): void {
       markdown += `- [System Concepts](https://iconfoundation.notion.site/system-concepts)\n`;
       markdown += `- [System Components](https://iconfoundation.notion.site/system-components)\n`;
       markdown += `\n---\n*Use sodax_list_glossary_terms to see all terms, optionally filtered by category*`;
+      markdown += `\n\n${formatCacheAge(getGlossaryCacheStatus())}`;
 
       return {
         content: [{ type: "text" as const, text: markdown }]
@@ -119,31 +217,61 @@ export function registerGlossaryTools(server: McpServer): void {
   // Tool 3: Get Specific Term
   server.tool(
     "sodax_get_glossary_term",
-    "Look up a specific technical term in the SODAX glossary. Returns the definition, category, and related information.",
+    "Look up a specific technical term in the SODAX glossary by title, alias or abbreviation. Returns the definition, category, and related information. If the query matches several terms about equally well, returns the ranked candidates instead of picking one; otherwise the other matches are listed.",
     {
-      term: z.string().describe("The technical term to look up (e.g., 'Solver', 'AMM', 'Modern money')")
+      term: z.string().describe("The technical term to look up (e.g., 'Solver', 'AMM', 'Modern money')"),
+      detail: z.enum(["summary", "full"]).optional().describe("'full' adds the term's page from Notion — long-form explanation, examples, diagrams — and its related terms (default: summary)")
     },
-    async ({ term }) => {
-      const result = await getTerm(term);
+    async ({ term, detail = "summary" }) => {
+      const resolution = await resolveTerm(term);
+      const result = resolution.term;
+
+      if (!result && resolution.candidates.length > 1) {
+        return {
+          content: [{ type: "text" as const, text: formatCandidates(term, resolution) }]
+        };
+      }
 
       if (!result) {
         const allTerms = await getAllTerms();
         return {
           content: [{
             type: "text" as const,
-            text: `Term "${term}" not found.\n\nAvailable terms:\n${allTerms.map(t => `- ${t.title} *(${categoryLabel(t.category)})*`).join("\n")}`
+            text: `Term "${term}" not found.${await didYouMean(term)}\n\nAvailable terms:\n${allTerms.map(t => `- ${t.title} *(${categoryLabel(t.category)})*`).join("\n")}`
           }],
           isError: true
         };
       }
 
       let markdown = `# ${result.title}\n\n`;
+      const note = matchNote(resolution.candidates[0]);
+      if (note) markdown += `*"${term}" resolved by ${note}*\n\n`;
+      markdown += alsoMatchedNote(resolution);
       markdown += `**Category:** ${categoryLabel(result.category)}\n\n`;
       markdown += `${result.summary}\n\n`;
+      if (result.aliases.length > 0) {
+        markdown += `**Also known as:** ${result.aliases.join(", ")}\n\n`;
+      }
       if (result.tags.length > 0) {
         markdown += `**Tags:** ${result.tags.map(t => `\`${t}\``).join(", ")}\n`;
       }
 
+      if (detail === "full") {
+        const full = await getTermDetail(result);
+        if (full.relations.length > 0) {
+          markdown += `\n## Related Terms\n\n`;
+          markdown += full.relations.map(r => `- **${r.property}:** ${r.terms.join(", ")}`).join("\n") + "\n";
+        }
+        if (full.body) {
+          markdown += `\n## Details\n\n${demoteHeadings(full.body, 2)}\n`;
+        } else if (full.unavailable) {
+          markdown += `\n*Full details unavailable: ${full.unavailable}.*\n`;
+        } else {
+          markdown += `\n*The term's Notion page has no content beyond the summary.*\n`;
+        }
+        if (full.url) markdown += `\n[View in Notion](${full.url})\n`;
+      }
+
       return {
         content: [{ type: "text" as const, text: markdown }]
       };
@@ -166,7 +294,7 @@ export function registerGlossaryTools(server: McpServer): void {
         return {
           content: [{
             type: "text" as const,
-            text: `No results found for "${query}"${category ? ` in ${categoryLabel(category as GlossaryCategory)}` : ""}. Try different keywords or use sodax_list_glossary_terms to see all available terms.`
+            text: `No results found for "${query}"${category ? ` in ${categoryLabel(category as GlossaryCategory)}` : ""}.${await didYouMean(query)} Try different keywords or use sodax_list_glossary_terms to see all available terms.`
           }]
         };
       }
@@ -190,28 +318,42 @@ export function registerGlossaryTools(server: McpServer): void {
   // Tool 5: Translate Technical Term
   server.tool(
     "sodax_translate_term",
-    "Translate a technical SODAX term into simpler language for non-technical audiences. Perfect for marketing content creation.",
+    "Translate a technical SODAX term (title, alias or abbreviation) into simpler language for a given audience — retail users, investors, developers or press — listing the dictionary substitutions applied. Perfect for marketing content creation. If the query matches several terms about equally well, returns the ranked candidates instead of picking one; otherwise the other matches are listed.",
     {
-      term: z.string().describe("The technical term to translate (e.g., 'Solver', 'cross-network', 'Modern money')")
+      term: z.string().describe("The technical term to translate (e.g., 'Solver', 'cross-network', 'Modern money')"),
+      audience: z.enum(PLAIN_LANGUAGE_AUDIENCES).optional().describe("Who the explanation is for: 'retail' (users new to crypto), 'investor', 'developer' or 'press'. Each gets a different level of simplification. Omit for the general wording.")
     },
-    async ({ term }) => {
-      const result = await translateTerm(term);
+    async ({ term, audience }) => {
+      const resolution = await resolveTerm(term);
+      if (!resolution.term && resolution.candidates.length > 1) {
+        return {
+          content: [{ type: "text" as const, text: formatCandidates(term, resolution) }]
+        };
+      }
+
+      const result = resolution.term ? await translateTerm(resolution.term.title, audience ?? null) : null;
 
       if (!result) {
         const allTerms = await getAllTerms();
         return {
           content: [{
             type: "text" as const,
-            text: `Term "${term}" not found in glossary.\n\nAvailable terms:\n${allTerms.map(t => `- ${t.title} *(${categoryLabel(t.category)})*`).join("\n")}`
+            text: `Term "${term}" not found in glossary.${await didYouMean(term)}\n\nAvailable terms:\n${allTerms.map(t => `- ${t.title} *(${categoryLabel(t.category)})*`).join("\n")}`
           }],
           isError: true
         };
       }
 
       let markdown = `# Translation: ${result.term}\n\n`;
+      markdown += alsoMatchedNote(resolution);
       markdown += `**Category:** ${categoryLabel(result.category)}\n\n`;
+      if (result.aliases.length > 0) markdown += `**Also known as:** ${result.aliases.join(", ")}\n\n`;
       markdown += `## Technical Definition\n${result.technicalDefinition}\n\n`;
-      markdown += `## Simple Explanation\n${result.simpleExplanation}\n\n`;
+      markdown += `## Simple Explanation${audience ? ` (for ${AUDIENCE_LABELS[audience]})` : ""}\n${result.simpleExplanation}\n\n`;
+      markdown += `## Substitutions Applied\n`;
+      markdown += result.substitutions.length > 0
+        ? result.substitutions.map(s => `- "${s.from}" → "${s.to}"${s.count > 1 ? ` (×${s.count})` : ""}`).join("\n") + "\n\n"
+        : `*None — the definition needs no rewording${audience ? ` for ${AUDIENCE_LABELS[audience]}` : ""}.*\n\n`;
 
       if (result.relatedTerms.length > 0) {
         markdown += `## Related Terms\n`;
@@ -278,4 +420,178 @@ export function registerGlossaryTools(server: McpServer): void {
       };
     }
   );
+
+  // Tool 8: Annotate Text
+  server.tool(
+    "sodax_annotate_text",
+    "Annotate draft copy (blog post, explainer) with glossary definitions. Detects every glossary term — including aliases, plurals and possessives — and marks its first occurrence with an inline link, a footnoted definition, or an entry in a trailing 'Key terms' box, in Markdown or HTML. Also flags jargon that has no glossary entry yet.",
+    {
+      text: z.string().min(1).max(50000).describe("The copy to annotate (Markdown or plain text)"),
+      style: z.enum(["links", "footnotes", "key-terms"]).optional().describe("'links' (term links to its glossary page, definition on hover), 'footnotes' (numbered definitions at the end) or 'key-terms' (a trailing box of definitions). Default: footnotes"),
+      format: z.enum(["markdown", "html"]).optional().describe("Output format of the annotated copy (default: markdown)")
+    },
+    async ({ text, style = "footnotes", format = "markdown" }) => {
+      const result = await annotateText(text, style, format);
+
+      let report = `## Glossary Annotation\n\n`;
+      if (result.terms.length === 0) {
+        report += `No glossary terms found in the text.\n`;
+      } else {
+        report += `**Terms annotated:** ${result.terms.length} (${result.occurrences.length} occurrence(s); only the first of each is annotated)\n\n`;
+        report += result.terms.map(t => `- ${t.title} *(${categoryLabel(t.category)})* ×${t.occurrences}`).join("\n") + "\n";
+      }
+
+      if (result.unknownJargon.length > 0) {
+        report += `\n### Jargon Without a Glossary Entry\n\n`;
+        for (const jargon of result.unknownJargon) {
+          const notes = [
+            jargon.count > 1 ? `×${jargon.count}` : "",
+            jargon.plainLanguage ? `plain language: "${jargon.plainLanguage}"` : "",
+            jargon.related.length > 0 ? `see ${jargon.related.join(", ")}` : "",
+          ].filter(Boolean);
+          report += `- \`${jargon.text}\` *(${jargon.kind})*${notes.length > 0 ? ` — ${notes.join("; ")}` : ""}\n`;
+        }
+        report += `\n*Explain these in the copy, or add them to the glossary.*\n`;
+      }
+
+      return {
+        content: [
+          { type: "text" as const, text: result.text },
+          { type: "text" as const, text: report }
+        ]
+      };
+    }
+  );
+
+  // Tool 9: Explore Glossary Graph
+  server.tool(
+    "sodax_explore_glossary_graph",
+    "Explore how glossary terms relate. Edges come from explicit Notion relations, one term's summary mentioning another, and shared tags (weighted by tag rarity). Give a term for its neighbours, a term and 'to' for the closest connection between them, or neither for the whole graph. Export as a Mermaid or Graphviz DOT diagram.",
+    {
+      term: z.string().optional().describe("Term to explore from (title or alias)"),
+      to: z.string().optional().describe("Second term: returns the shortest path from 'term' to it"),
+      depth: z.number().int().min(1).max(3).optional().describe("Hops from 'term' to include (default: 1)"),
+      minWeight: z.number().min(0).optional().describe("Hide edges weaker than this (relation = 3, mention = 2, a shared tag ≈ 0.3–2)"),
+      format: z.enum(["markdown", "json", "mermaid", "dot"]).optional().describe("Response format (default: markdown)")
+    },
+    async ({ term, to, depth = 1, minWeight = 0, format = "markdown" }) => {
+      const graph = buildGlossaryGraph(await fetchGlossary());
+
+      // Resolve term names, reporting ambiguity or unknown terms
+      const titles: string[] = [];
+      for (const query of [term, to]) {
+        if (!query) continue;
+        const resolution = await resolveTerm(query);
+        if (!resolution.term && resolution.candidates.length > 1) {
+          return { content: [{ type: "text" as const, text: formatCandidates(query, resolution) }] };
+        }
+        if (!resolution.term) {
+          return {
+            content: [{ type: "text" as const, text: `Term "${query}" not found.${await didYouMean(query)}` }],
+            isError: true
+          };
+        }
+        titles.push(resolution.term.title);
+      }
+      if (to && !term) {
+        return { content: [{ type: "text" as const, text: "Give 'term' as well as 'to' to find a path between them." }], isError: true };
+      }
+
+      // Path between two terms
+      if (titles.length === 2) {
+        const [from, target] = titles;
+        const path = shortestPath(graph, from, target, minWeight);
+        if (!path) {
+          return {
+            content: [{ type: "text" as const, text: `No connection between "${from}" and "${target}"${minWeight > 0 ? ` with edges of weight ${minWeight} or more` : ""}.` }]
+          };
+        }
+        const pathGraph: GlossaryGraph = { nodes: graph.nodes.filter(n => path.terms.includes(n.title)), edges: path.edges };
+        if (format === "json") return { content: [{ type: "text" as const, text: JSON.stringify(path, null, 2) }] };
+        if (format !== "markdown") return { content: [{ type: "text" as const, text: formatDiagram(pathGraph, format, [from, target]) }] };
+
+        let markdown = `# ${from} → ${target}\n\n`;
+        markdown += `**Path:** ${path.terms.join(" → ")} (${path.edges.length} step(s), cost ${path.cost})\n\n`;
+        path.edges.forEach((edge, i) => {
+          markdown += `${i + 1}. **${path.terms[i]} → ${path.terms[i + 1]}** (weight ${edge.weight}) — ${formatReasons(edge.reasons)}\n`;
+        });
+        markdown += `\n*Use format 'mermaid' or 'dot' for a diagram*`;
+        return { content: [{ type: "text" as const, text: markdown }] };
+      }
+
+      // Neighbourhood of one term
+      if (titles.length === 1) {
+        const [focus] = titles;
+        const found = neighbours(graph, focus, depth, minWeight);
+        const local = subgraph(graph, [focus, ...found.map(n => n.term)], minWeight);
+        if (format === "json") return { content: [{ type: "text" as const, text: JSON.stringify({ term: focus, neighbours: found, edges: local.edges }, null, 2) }] };
+        if (format !== "markdown") return { content: [{ type: "text" as const, text: formatDiagram(local, format, [focus]) }] };
+
+        let markdown = `# Terms Related to ${focus}\n\n`;
+        if (found.length === 0) {
+          markdown += `No related terms${minWeight > 0 ? ` with edges of weight ${minWeight} or more` : ""}.\n`;
+        } else {
+          markdown += `| Term | Hops | Weight | Why |\n|------|------|--------|-----|\n`;
+          for (const n of found) markdown += `| ${n.term} | ${n.distance} | ${n.weight} | ${formatReasons(n.reasons)} |\n`;
+          markdown += `\n*Use format 'mermaid' or 'dot' for a diagram, or 'to' for the path to a specific term*`;
+        }
+        return { content: [{ type: "text" as const, text: markdown }] };
+      }
+
+      // The whole graph
+      const whole = subgraph(graph, graph.nodes.map(n => n.title), minWeight);
+      if (format === "json") return { content: [{ type: "text" as const, text: JSON.stringify(whole, null, 2) }] };
+      if (format !== "markdown") return { content: [{ type: "text" as const, text: formatDiagram(whole, format, []) }] };
+
+      let markdown = `# SODAX Glossary Graph\n\n`;
+      markdown += `**Terms:** ${whole.nodes.length} · **Connections:** ${whole.edges.length}\n\n`;
+      markdown += `## Most Connected Terms\n\n`;
+      markdown += [...whole.nodes].sort((a, b) => b.degree - a.degree).slice(0, 10).map(n => `- ${n.title} *(${categoryLabel(n.category)})* — ${n.degree} connection(s)`).join("\n");
+      markdown += `\n\n## Strongest Connections\n\n`;
+      markdown += whole.edges.slice(0, 15).map(e => `- ${e.source} ${e.directed ? "→" : "—"} ${e.target} (weight ${e.weight}) — ${formatReasons(e.reasons)}`).join("\n");
+      markdown += `\n\n*Use format 'mermaid' or 'dot' for a diagram of the whole glossary*`;
+      return { content: [{ type: "text" as const, text: markdown }] };
+    }
+  );
+  // Tool 10: Audit Glossary
+  server.tool(
+    "sodax_audit_glossary",
+    "Audit the glossary for gaps its owners should fix in Notion: pages left out for lacking a title or summary, duplicate and near-duplicate titles across both databases, terms without tags or an owner, summaries over a length budget, tags written with inconsistent casing, and jargon used in the Brand Bible that has no glossary entry. Returns a to-do list grouped by issue, with links to the Notion pages.",
+    {
+      summaryBudget: z.number().int().min(20).max(2000).optional().describe(`Longest acceptable summary, in characters (default: ${DEFAULT_SUMMARY_BUDGET})`),
+      format: z.enum(["json", "markdown"]).optional().describe("Response format (default: markdown)")
+    },
+    async ({ summaryBudget = DEFAULT_SUMMARY_BUDGET, format = "markdown" }) => {
+      const audit = await auditGlossary(summaryBudget);
+
+      if (format === "json") {
+        return { content: [{ type: "text" as const, text: JSON.stringify(audit, null, 2) }] };
+      }
+
+      let markdown = `# Glossary Audit\n\n`;
+      markdown += `**Terms checked:** ${audit.termCount} (glossary from ${audit.origin ?? "unknown source"}, updated ${audit.lastUpdated})\n`;
+      markdown += `**Issues:** ${audit.issues.length} (${audit.summary.errors} error(s), ${audit.summary.warnings} warning(s), ${audit.summary.info} info)\n\n`;
+      for (const note of audit.notes) markdown += `> ⚠️ ${note}\n\n`;
+
+      if (audit.issues.length === 0) {
+        markdown += `✅ No issues found.\n`;
+        return { content: [{ type: "text" as const, text: markdown }] };
+      }
+
+      for (const [kind, heading] of Object.entries(AUDIT_HEADINGS) as [AuditIssueKind, string][]) {
+        const issues = audit.issues.filter(i => i.kind === kind);
+        if (issues.length === 0) continue;
+        markdown += `## ${heading} (${issues.length}, ${issues[0].severity})\n\n`;
+        for (const issue of issues) {
+          const link = issue.url ? ` — [open in Notion](${issue.url})` : "";
+          const sources = issue.sources ? ` *(${issue.sources.slice(0, 3).join("; ")}${issue.sources.length > 3 ? `; +${issue.sources.length - 3} more` : ""})*` : "";
+          markdown += `- [ ] ${issue.message}${sources}${link}\n`;
+        }
+        markdown += `\n`;
+      }
+
+      markdown += `---\n*Fix these in Notion, then run sodax_refresh_glossary and audit again*`;
+      return { content: [{ type: "text" as const, text: markdown }] };
+    }
+  );
 }
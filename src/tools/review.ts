@@ -0,0 +1,66 @@
+/**
+ * Copy Review MCP Tools
+ *
+ * Tool definitions for checking draft marketing copy against the SODAX
+ * Brand Bible and Technical Glossary.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { reviewCopy } from "../services/copyReview.js";
+
+/**
+ * Register all copy review tools with the MCP server
+ */
+export function registerReviewTools(server: McpServer): void {
+
+  // Tool 1: Review Copy
+  server.tool(
+    "sodax_review_copy",
+    "Review draft copy (tweet, blog intro, press release) for brand alignment. Returns voice/tone violations and discouraged terms from the Brand Bible's 'Brand Voice & Tone' and 'Content Guidelines' sections, plus glossary terms with the wrong capitalization. Each finding includes its character offset, severity and the section/subsection ID backing the rule.",
+    {
+      text: z.string().min(1).max(20000).describe("The draft copy to review"),
+      format: z.enum(["json", "markdown"]).optional().describe("Response format (default: markdown)")
+    },
+    async ({ text, format = "markdown" }) => {
+      const review = await reviewCopy(text);
+
+      if (format === "json") {
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify(review, null, 2)
+          }]
+        };
+      }
+
+      let markdown = `# Copy Review\n\n`;
+      markdown += `**Characters:** ${review.characterCount}\n`;
+      markdown += `**Findings:** ${review.findings.length} (${review.summary.errors} error(s), ${review.summary.warnings} warning(s))\n`;
+      markdown += `**Rules checked:** ${review.rulesChecked}\n\n`;
+
+      if (review.findings.length === 0) {
+        markdown += `✅ No issues found against the current Brand Bible and glossary.\n\n`;
+      } else {
+        markdown += `## Findings\n\n`;
+        markdown += `| # | Severity | Category | Match | Offset | Suggestion | Source |\n`;
+        markdown += `|---|----------|----------|-------|--------|------------|--------|\n`;
+        review.findings.forEach((f, i) => {
+          const source = f.source.type === "brand-bible" ? `§${f.source.id} ${f.source.title}` : `Glossary: ${f.source.title}`;
+          markdown += `| ${i + 1} | ${f.severity} | ${f.category} | \`${f.match}\` | ${f.offset} | ${f.suggestion ?? "—"} | ${source} |\n`;
+        });
+        markdown += `\n## Details\n\n`;
+        review.findings.forEach((f, i) => {
+          markdown += `${i + 1}. ${f.message}\n   - *Rule:* ${f.rule}\n`;
+        });
+        markdown += `\n`;
+      }
+
+      markdown += `---\n*Use sodax_get_subsection with a source ID to read the full guideline*`;
+
+      return {
+        content: [{ type: "text" as const, text: markdown }]
+      };
+    }
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * Unified Search MCP Tools
+ *
+ * Tool definitions for searching the Brand Bible, Technical Glossary and
+ * marketing stats in one call.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { searchAll } from "../services/search.js";
+import type { SearchSourceType } from "../services/search.js";
+
+const SOURCE_LABELS: Record<SearchSourceType, string> = {
+  "brand-bible": "Brand Bible",
+  glossary: "Glossary",
+  stats: "Stats"
+};
+
+/**
+ * Register all unified search tools with the MCP server
+ */
+export function registerSearchTools(server: McpServer): void {
+
+  // Tool 1: Search Everything
+  server.tool(
+    "sodax_search_all",
+    "Search the Brand Bible, Technical Glossary and marketing stats at once (e.g. 'what do we say about liquidity?'). Returns ranked, mixed results with source type, ID, snippet and a normalized score. Wrap words in double quotes to require an exact phrase.",
+    {
+      query: z.string().describe("Search query (keywords, or \"exact phrase\")"),
+      sources: z.array(z.enum(["brand-bible", "glossary", "stats"])).optional()
+        .describe("Limit to these sources (default: all)"),
+      maxResults: z.number().optional().describe("Maximum results to return (default: 10)"),
+      format: z.enum(["json", "markdown"]).optional().describe("Response format (default: markdown)")
+    },
+    async ({ query, sources, maxResults = 10, format = "markdown" }) => {
+      const results = await searchAll(query, { sources, maxResults });
+
+      if (format === "json") {
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify(results, null, 2)
+          }]
+        };
+      }
+
+      if (results.length === 0) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: `No results found for "${query}". Try different keywords, or browse with sodax_get_marketing_overview and sodax_list_glossary_terms.`
+          }]
+        };
+      }
+
+      let markdown = `# Search Results for "${query}"\n\n`;
+      markdown += `Found ${results.length} result(s):\n\n`;
+
+      for (const result of results) {
+        const label = result.sourceType === "brand-bible" ? `${result.id} ${result.title}` : result.title;
+        markdown += `## [${SOURCE_LABELS[result.sourceType]}] ${label}\n`;
+        markdown += `*Score: ${result.score.toFixed(2)}${result.context ? ` · ${result.context}` : ""}*\n\n`;
+        markdown += `${result.snippet}\n\n`;
+        markdown += `---\n\n`;
+      }
+
+      return {
+        content: [{ type: "text" as const, text: markdown }]
+      };
+    }
+  );
+}
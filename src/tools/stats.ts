@@ -14,7 +14,9 @@ import {
   getTokenSupply,
   getMoneyMarketAssets,
   refreshStats,
+  getStatsCacheStatus,
 } from "../services/stats.js";
+import { formatCacheAge } from "../services/cacheManager.js";
 
 /**
  * Register all marketing stats tools with the MCP server
@@ -35,7 +37,7 @@ export function registerStatsTools(server: McpServer): void {
           content: [
             {
               type: "text" as const,
-              text: JSON.stringify(overview, null, 2),
+              text: JSON.stringify({ ...overview, cacheStatus: getStatsCacheStatus() }, null, 2),
             },
           ],
         };
@@ -57,6 +59,8 @@ export function registerStatsTools(server: McpServer): void {
       markdown += `| Recent Intents (Orderbook) | ${overview.recentIntentsCount} |\n`;
       markdown += `\n---\n*Use specific tools for detailed network, partner, or token data*`;
 
+      markdown += `\n\n${formatCacheAge(getStatsCacheStatus())}`;
+
       return {
         content: [{ type: "text" as const, text: markdown }],
       };
@@ -92,6 +96,8 @@ export function registerStatsTools(server: McpServer): void {
         markdown += `| ${net.name} | \`${net.id}\` |\n`;
       }
 
+      markdown += `\n\n${formatCacheAge(getStatsCacheStatus())}`;
+
       return {
         content: [{ type: "text" as const, text: markdown }],
       };
@@ -131,6 +137,8 @@ export function registerStatsTools(server: McpServer): void {
         markdown += `_No partners found._`;
       }
 
+      markdown += `\n\n${formatCacheAge(getStatsCacheStatus())}`;
+
       return {
         content: [{ type: "text" as const, text: markdown }],
       };
@@ -179,6 +187,8 @@ export function registerStatsTools(server: McpServer): void {
         markdown += `| Block Number | ${supply.blockNumber} |\n`;
       }
 
+      markdown += `\n\n${formatCacheAge(getStatsCacheStatus())}`;
+
       return {
         content: [{ type: "text" as const, text: markdown }],
       };
@@ -219,6 +229,8 @@ export function registerStatsTools(server: McpServer): void {
         markdown += `_No money market assets found._`;
       }
 
+      markdown += `\n\n${formatCacheAge(getStatsCacheStatus())}`;
+
       return {
         content: [{ type: "text" as const, text: markdown }],
       };
@@ -3,15 +3,25 @@
  */
 
 export interface BrandSection {
+  /** Positional number ("3") — shifts when sections are added or reordered */
   id: string;
+  /** Stable, human-readable reference ("visual-identity") */
+  slug: string;
+  /** Notion block ID of the heading (or child page) that starts the section */
+  blockId?: string;
   title: string;
   content: string;
   subsections: BrandSubsection[];
 }
 
 export interface BrandSubsection {
+  /** Positional number ("3.1") — shifts when subsections are added or reordered */
   id: string;
   parentId: string;
+  /** Stable, human-readable reference ("visual-identity/color-palette") */
+  slug: string;
+  /** Notion block ID of the heading that starts the subsection */
+  blockId?: string;
   title: string;
   content: string;
 }
@@ -28,6 +38,7 @@ export interface BrandOverview {
   sectionCount: number;
   sections: {
     id: string;
+    slug: string;
     title: string;
     subsectionCount: number;
   }[];
@@ -35,8 +46,10 @@ export interface BrandOverview {
 
 export interface SearchResult {
   sectionId: string;
+  sectionSlug: string;
   sectionTitle: string;
   subsectionId?: string;
+  subsectionSlug?: string;
   subsectionTitle?: string;
   matchedContent: string;
   relevanceScore: number;
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import type { BrandSection } from "../src/types.js";
+
+// Redirects are kept under DATA_DIR, which is read when the modules load
+const dataDir = await mkdtemp(join(tmpdir(), "sodax-test-"));
+process.env.DATA_DIR = dataDir;
+const { resolveRef } = await import("../src/services/brandBible.js");
+const { recordSnapshot } = await import("../src/services/brandBibleHistory.js");
+
+const section = (id: string, slug: string, title: string): BrandSection => ({
+  id,
+  slug,
+  blockId: `block-${slug}`,
+  title,
+  content: `${title} content`,
+  subsections: [],
+});
+
+const mission = section("1", "mission", "Mission");
+const visual = section("2", "visual-identity", "Visual Identity");
+
+// Introduction inserted ahead of Mission, and Visual Identity renamed
+const current = [
+  section("1", "introduction", "Introduction"),
+  { ...mission, id: "2" },
+  { ...visual, id: "3", slug: "visual-design", title: "Visual Design" },
+];
+
+describe("resolveRef", () => {
+  before(async () => {
+    await recordSnapshot({ title: "Brand Bible", lastUpdated: new Date("2026-01-01"), sections: [mission, visual] });
+    await recordSnapshot({ title: "Brand Bible", lastUpdated: new Date("2026-02-01"), sections: current });
+  });
+  after(() => rm(dataDir, { recursive: true, force: true }));
+
+  it("resolves a number to the section that holds it now, noting what it used to denote", async () => {
+    const resolved = await resolveRef(current, "1");
+    assert.equal(resolved?.item.title, "Introduction");
+    assert.equal(resolved?.matchedBy, "id");
+    assert.equal(resolved?.renumbered?.title, "Mission");
+    assert.equal(resolved?.renumbered?.currentId, "2");
+  });
+
+  it("resolves the new number of a moved section", async () => {
+    const resolved = await resolveRef(current, "2");
+    assert.equal(resolved?.item.title, "Mission");
+    assert.equal(resolved?.renumbered?.title, "Visual Identity");
+  });
+
+  it("resolves slugs to their current section", async () => {
+    const resolved = await resolveRef(current, "mission");
+    assert.equal(resolved?.item.title, "Mission");
+    assert.equal(resolved?.renumbered, undefined);
+    assert.equal((await resolveRef(current, "introduction"))?.item.title, "Introduction");
+  });
+
+  it("follows a redirect only when nothing carries the reference now", async () => {
+    const resolved = await resolveRef(current, "visual-identity");
+    assert.equal(resolved?.item.title, "Visual Design");
+    assert.equal(resolved?.matchedBy, "redirect");
+    assert.equal(resolved?.renumbered?.currentSlug, "visual-design");
+  });
+
+  it("doesn't guess a title for an unknown number", async () => {
+    assert.equal(await resolveRef(current, "9"), null);
+  });
+});
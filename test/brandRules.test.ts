@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { extractBrandRules } from "../src/services/brandRules.js";
+import type { BrandBible } from "../src/types.js";
+
+const brandBible = (content: string): BrandBible => ({
+  title: "Brand Bible",
+  lastUpdated: new Date("2026-01-01"),
+  sections: [{ id: "2", slug: "brand-voice-tone", title: "Brand Voice & Tone", content, subsections: [] }],
+});
+
+const rules = (content: string) => extractBrandRules(brandBible(content)).map((r) => [r.kind, r.text, r.examples]);
+
+describe("extractBrandRules", () => {
+  it("reads lists under Do / Don't headings, with nested examples", () => {
+    assert.deepEqual(rules("**Do**\n\n- Use active voice\n  - \"SODAX settles your swap\"\n\n**Don't**\n\n- Use hype words like \"revolutionary\""), [
+      ["do", "Use active voice", ["\"SODAX settles your swap\""]],
+      ["dont", "Use hype words like \"revolutionary\"", []],
+    ]);
+  });
+
+  it("reads to-dos, checked or not", () => {
+    assert.deepEqual(rules("- [x] Write in plain language\n- [ ] Don't use \"chains\""), [
+      ["do", "Write in plain language", []],
+      ["dont", "Don't use \"chains\"", []],
+    ]);
+  });
+
+  it("reads toggles as verdict headings or as rules with examples", () => {
+    assert.deepEqual(rules("▸ Don't\n  - Say \"guaranteed returns\"\n▸ Avoid exclamation marks\n  - \"Swap now!\""), [
+      ["dont", "Say \"guaranteed returns\"", []],
+      ["dont", "Avoid exclamation marks", ["\"Swap now!\""]],
+    ]);
+  });
+
+  it("reads standalone statements and preferences, but not every sentence with \"not\"", () => {
+    assert.deepEqual(rules("- SODAX is not a \"bank\" and we say so.\n- Never say \"revolutionary\".\n- Say \"networks\" not \"chains\".\n\nUse \"networks\" instead of \"chains\"."), [
+      ["dont", "Never say \"revolutionary\".", []],
+      ["do", "Say \"networks\" not \"chains\".", []],
+      ["do", "Use \"networks\" instead of \"chains\".", []],
+    ]);
+  });
+});
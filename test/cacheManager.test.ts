@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+
+// The disk cache lives under DATA_DIR, which is read when the modules load
+const dataDir = await mkdtemp(join(tmpdir(), "sodax-test-"));
+process.env.DATA_DIR = dataDir;
+const { createCachedSource } = await import("../src/services/cacheManager.js");
+
+describe("createCachedSource", () => {
+  after(() => rm(dataDir, { recursive: true, force: true }));
+
+  it("serves the fallback as stale after a failed first fetch, and reports the refresh as failed", async () => {
+    const source = createCachedSource<string>({
+      name: "test-fallback",
+      label: "Test",
+      ttlSeconds: () => 300,
+      load: async () => {
+        throw new Error("source down");
+      },
+      fallback: () => "placeholder",
+      revive: (data) => (typeof data === "string" ? data : null),
+    });
+
+    assert.equal(await source.get(), "placeholder");
+    const status = source.status();
+    assert.equal(status.origin, "fallback");
+    assert.equal(status.stale, true);
+    assert.equal(status.cached, false);
+    assert.equal(status.expiresIn, 0);
+    assert.equal(status.lastError?.message, "source down");
+    // A retry is due well before the TTL runs out
+    assert.ok(Date.parse(status.nextRefresh!) - Date.now() < 60 * 1000);
+
+    assert.deepEqual(await source.refresh(), { value: "placeholder", fresh: false, error: "source down" });
+  });
+
+  it("replaces the fallback once the source is back", async () => {
+    let up = false;
+    const source = createCachedSource<string>({
+      name: "test-recovery",
+      label: "Test",
+      ttlSeconds: () => 300,
+      load: async () => {
+        if (!up) throw new Error("source down");
+        return "live content";
+      },
+      fallback: () => "placeholder",
+      revive: (data) => (typeof data === "string" ? data : null),
+    });
+
+    assert.equal(await source.get(), "placeholder");
+    up = true;
+    assert.deepEqual(await source.refresh(), { value: "live content", fresh: true, error: null });
+    assert.equal(source.status().origin, "live");
+    assert.equal(source.status().stale, false);
+  });
+});
@@ -0,0 +1,26 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { ConfigError, loadConfig } from "../src/config.js";
+
+describe("loadConfig", () => {
+  afterEach(() => {
+    delete process.env.EXPORT_PDF_ENDPOINT;
+    delete process.env.CHROME_NO_SANDBOX;
+  });
+
+  it("reads boolean overrides as true/false or 1/0 in any case", () => {
+    process.env.EXPORT_PDF_ENDPOINT = "TRUE";
+    process.env.CHROME_NO_SANDBOX = "0";
+    const config = loadConfig();
+    assert.equal(config.export.pdfEndpoint, true);
+    assert.equal(config.export.chromeNoSandbox, false);
+
+    process.env.EXPORT_PDF_ENDPOINT = "1";
+    assert.equal(loadConfig().export.pdfEndpoint, true);
+  });
+
+  it("rejects any other boolean value instead of reading it as false", () => {
+    process.env.EXPORT_PDF_ENDPOINT = "yes";
+    assert.throws(loadConfig, (error) => error instanceof ConfigError && /EXPORT_PDF_ENDPOINT.*"yes"/.test(error.message));
+  });
+});
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { rankTerms } from "../src/services/glossary.js";
+import type { GlossaryTerm } from "../src/services/glossary.js";
+
+const term = (title: string, aliases: string[] = []): GlossaryTerm => ({
+  title,
+  summary: `${title} summary`,
+  tags: [],
+  aliases,
+  category: "system-concept",
+});
+
+const terms = [
+  term("Money Market", ["MM"]),
+  term("Modern money"),
+  term("Solver"),
+  term("AMM", ["Automated market maker"]),
+  term("Intent"),
+  term("Intents Engine"),
+];
+
+describe("rankTerms", () => {
+  it("picks an exact title or alias", () => {
+    assert.equal(rankTerms(terms, "solver").term?.title, "Solver");
+    const byAlias = rankTerms(terms, "mm");
+    assert.equal(byAlias.term?.title, "Money Market");
+    assert.equal(byAlias.matchedBy, "alias");
+  });
+
+  it("resolves a clearly better match and keeps the others as candidates", () => {
+    const resolution = rankTerms(terms, "DEX");
+    assert.equal(resolution.term?.title, "AMM");
+    assert.equal(resolution.matchedBy, "synonym");
+    assert.equal(resolution.candidates[0].term.title, "AMM");
+  });
+
+  it("treats a gap of exactly the margin as decisive", () => {
+    // Same overlap on both names; only the start-of-name bonus (0.1) separates them
+    const resolution = rankTerms(terms, "money");
+    assert.equal(resolution.term?.title, "Money Market");
+    assert.equal(resolution.matchedBy, "partial");
+    assert.deepEqual(resolution.candidates.map((c) => c.term.title), ["Money Market", "Modern money"]);
+  });
+
+  it("picks no term when the top scores are close", () => {
+    const resolution = rankTerms([term("Market Maker"), term("Market Making")], "market");
+    assert.equal(resolution.term, null);
+    assert.equal(resolution.candidates.length, 2);
+  });
+
+  it("corrects a misspelling", () => {
+    const resolution = rankTerms(terms, "solvr");
+    assert.equal(resolution.term?.title, "Solver");
+    assert.equal(resolution.matchedBy, "fuzzy");
+  });
+
+  it("matches nothing for an empty query", () => {
+    assert.deepEqual(rankTerms(terms, "  "), { term: null, matchedBy: null, candidates: [] });
+  });
+});
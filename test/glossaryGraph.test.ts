@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { GlossaryTerm } from "../src/services/glossary.js";
+import { buildGlossaryGraph } from "../src/services/glossaryGraph.js";
+
+const term = (title: string, id: string, relatedPages: GlossaryTerm["relatedPages"] = []): GlossaryTerm => ({
+  title,
+  summary: `${title}.`,
+  tags: [],
+  aliases: [],
+  category: "system-component",
+  id,
+  relatedPages,
+});
+
+const graphOf = (terms: GlossaryTerm[]) => buildGlossaryGraph({ title: "Glossary", lastUpdated: new Date("2026-01-01"), terms });
+
+describe("buildGlossaryGraph", () => {
+  it("counts a two-way relation once, even when each side names its property differently", () => {
+    const [edge] = graphOf([
+      term("Solver", "a1", [{ property: "Related", pageIds: ["b1"] }]),
+      term("Intent", "b1", [{ property: "Related to Solver", pageIds: ["a1"] }]),
+    ]).edges;
+    assert.equal(edge.weight, 3);
+    assert.equal(edge.directed, false);
+    assert.deepEqual(edge.reasons.map((r) => [r.label, r.from]), [["Related / Related to Solver", undefined]]);
+  });
+
+  it("keeps a one-way relation directed", () => {
+    const [edge] = graphOf([term("Solver", "a1", [{ property: "Related", pageIds: ["b1"] }]), term("Intent", "b1")]).edges;
+    assert.equal(edge.weight, 3);
+    assert.deepEqual([edge.source, edge.target, edge.directed], ["Solver", "Intent", true]);
+  });
+
+  it("counts two relations from the same side separately", () => {
+    const [edge] = graphOf([
+      term("Solver", "a1", [
+        { property: "Related", pageIds: ["b1"] },
+        { property: "Not to be confused with", pageIds: ["b1"] },
+      ]),
+      term("Intent", "b1"),
+    ]).edges;
+    assert.equal(edge.weight, 6);
+  });
+});
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseMessagingFramework } from "../src/services/messaging.js";
+import type { BrandSection } from "../src/types.js";
+
+const section: BrandSection = {
+  id: "4",
+  slug: "messaging-framework",
+  title: "Messaging Framework",
+  content: "",
+  subsections: [
+    {
+      id: "4.1",
+      parentId: "4",
+      slug: "messaging-framework/positioning",
+      title: "Positioning",
+      content: "Some context about positioning.\n\n> SODAX is the execution layer for modern money.",
+    },
+    {
+      id: "4.2",
+      parentId: "4",
+      slug: "messaging-framework/messaging-details",
+      title: "Messaging Details",
+      content: [
+        "### Taglines",
+        "- Money, without borders.",
+        "",
+        "### Value Propositions",
+        "#### For Developers",
+        "- One SDK for every network.",
+        "#### Value Propositions: Cross-chain Swaps",
+        "- Swap across networks in one step.",
+        "",
+        "▸ Proof Points",
+        "  - Settles in seconds.",
+        "  ▸ Notes",
+        "    - Audited twice.",
+        "- Quietly efficient.",
+      ].join("\n"),
+    },
+  ],
+};
+
+describe("parseMessagingFramework", () => {
+  const framework = parseMessagingFramework(section);
+
+  it("prefers the quoted positioning statement", () => {
+    assert.equal(framework.positioningStatement?.text, "SODAX is the execution layer for modern money.");
+  });
+
+  it("leaves statements under a subsection title that names no audience or product untagged", () => {
+    assert.deepEqual(framework.taglines.map((s) => [s.text, s.audience, s.product]), [["Money, without borders.", undefined, undefined]]);
+    assert.ok(!framework.products.includes("Messaging Details"));
+  });
+
+  it("tags statements under audience and product headings", () => {
+    assert.deepEqual(
+      framework.valuePropositions.map((s) => [s.text, s.audience, s.product]),
+      [
+        ["One SDK for every network.", "Developers", undefined],
+        ["Swap across networks in one step.", undefined, "Cross-chain Swaps"],
+        ["Quietly efficient.", undefined, "Cross-chain Swaps"],
+      ]
+    );
+    assert.deepEqual(framework.audiences, ["Developers"]);
+    assert.deepEqual(framework.products, ["Cross-chain Swaps"]);
+  });
+
+  it("reads a toggle as a heading for its indented children only", () => {
+    assert.deepEqual(framework.proofPoints.map((s) => s.text), ["Settles in seconds.", "Audited twice."]);
+    assert.ok(framework.valuePropositions.some((s) => s.text === "Quietly efficient."));
+  });
+});